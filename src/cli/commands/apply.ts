@@ -0,0 +1,185 @@
+import { resolve } from "path"
+import chalk from "chalk"
+import ora from "ora"
+import { ActionExecutor } from "../../executor/action-executor"
+import { LoadedActionPlan, LoadedPlanFile } from "../../types/plan-file"
+import { applyColorScheme } from "../../ui/color-scheme"
+import { formatFileSize, formatRelativeTime } from "../../utils/file-utils"
+import { loadConfig } from "../../utils/config"
+import { findStaleReason, readPlanFile } from "../../utils/plan-file"
+import { Quarantine } from "../../utils/quarantine"
+import { logger } from "../../utils/logger"
+import { confirmChanges, EXIT_ACTIONS_FAILED, EXIT_REFUSED } from "./clean"
+
+interface ApplyOptions {
+  dryRun?: boolean
+  yes?: boolean
+  strict?: boolean
+  undo?: boolean
+}
+
+export async function applyCommand(
+  planPath: string,
+  options: ApplyOptions
+): Promise<void> {
+  const inputFile = resolve(planPath)
+  let planFile: LoadedPlanFile
+
+  try {
+    planFile = await readPlanFile(inputFile)
+  } catch (error) {
+    logger.error("Loading action plan failed", { inputFile, error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+
+  const config = await loadConfig(planFile.baseDirectory, {
+    enableUndo: options.undo === false ? false : undefined
+  })
+  applyColorScheme(config.colorScheme)
+
+  console.log(chalk.cyan.bold("▶️  Duplicate Finder - Apply Plan"))
+  console.log(
+    chalk.gray(
+      `Plan: ${inputFile} (saved ${formatRelativeTime(planFile.generatedAt)}, ${planFile.generatedAt.toLocaleString()})`
+    )
+  )
+  console.log(chalk.gray(`Directory: ${planFile.baseDirectory}`))
+  if (options.dryRun) {
+    console.log(chalk.magenta("🧪 Dry run: nothing will be changed"))
+  }
+  console.log()
+
+  const spinner = ora("Checking files against the plan...").start()
+  const freshPlans: LoadedActionPlan[] = []
+  const stale: { path: string; reason: string }[] = []
+
+  for (const plan of planFile.plans) {
+    // One changed file makes its whole group stale, keepers included
+    const problems = await findStalePaths(plan)
+    if (problems.length === 0) {
+      freshPlans.push(plan)
+    } else {
+      stale.push(...problems)
+    }
+  }
+
+  if (stale.length === 0) {
+    spinner.succeed(`All ${planFile.plans.length} groups are unchanged`)
+  } else {
+    spinner.warn(
+      `${planFile.plans.length - freshPlans.length} of ${planFile.plans.length} groups changed since the plan was saved`
+    )
+    for (const { path, reason } of stale) {
+      console.log(chalk.yellow(`⚠️  ${path} (${reason})`))
+    }
+  }
+
+  if (stale.length > 0 && options.strict) {
+    console.error(
+      chalk.red("\n❌ Refusing to apply a partly stale plan (--strict)")
+    )
+    process.exit(EXIT_REFUSED)
+  }
+
+  if (freshPlans.length === 0) {
+    console.log(chalk.yellow("\nNothing left to apply"))
+    if (stale.length > 0) {
+      process.exit(EXIT_REFUSED)
+    }
+    return
+  }
+
+  const affectedFiles = freshPlans.reduce(
+    (sum, plan) => sum + plan.selectedActions.size,
+    0
+  )
+  const estimatedSavings = freshPlans.reduce(
+    (sum, plan) => sum + plan.estimatedSavings,
+    0
+  )
+  console.log(chalk.yellow("\n📋 Plan:"))
+  console.log(chalk.white(`• Groups: ${freshPlans.length}`))
+  console.log(chalk.white(`• Files affected: ${affectedFiles}`))
+  console.log(
+    chalk.green(`• Space reclaimed: ${formatFileSize(estimatedSavings)}`)
+  )
+
+  if (
+    !options.dryRun &&
+    !options.yes &&
+    !(await confirmChanges(affectedFiles))
+  ) {
+    console.error(chalk.yellow("\nNothing was changed"))
+    process.exit(EXIT_REFUSED)
+  }
+
+  const executor = new ActionExecutor({
+    enableUndo: config.enableUndo,
+    dryRun: options.dryRun,
+    transactional: true,
+    quarantine: planFile.quarantineDirectory
+      ? new Quarantine(planFile.quarantineDirectory, planFile.baseDirectory)
+      : undefined
+  })
+  const results = await executor.execute(freshPlans, (result) => {
+    if (result.success) {
+      console.log(chalk.green(`✅ ${result.action}: ${result.path}`))
+    } else {
+      console.log(
+        chalk.red(`❌ ${result.action}: ${result.path} (${result.error})`)
+      )
+    }
+  })
+
+  const failed = results.filter((result) => !result.success).length
+  const rolledBack = results.filter((result) => result.rolledBack).length
+
+  console.log(chalk.yellow("\n📊 Summary:"))
+  console.log(
+    chalk.white(
+      `• ${options.dryRun ? "Simulated" : "Applied"}: ${results.length - failed} files`
+    )
+  )
+  if (stale.length > 0) {
+    console.log(
+      chalk.yellow(
+        `• Skipped: ${planFile.plans.length - freshPlans.length} groups that changed`
+      )
+    )
+  }
+  if (failed > 0) {
+    console.log(chalk.red(`• Failed: ${failed} files`))
+  }
+  if (rolledBack > 0) {
+    console.log(
+      chalk.yellow(`• Rolled back: ${rolledBack} files after the failure`)
+    )
+  }
+
+  if (failed > 0) {
+    process.exit(EXIT_ACTIONS_FAILED)
+  }
+}
+
+async function findStalePaths(
+  plan: LoadedActionPlan
+): Promise<{ path: string; reason: string }[]> {
+  const problems: { path: string; reason: string }[] = []
+
+  for (const file of plan.duplicateGroup.files) {
+    const fingerprint = plan.fingerprints.get(file.path)
+    const reason = fingerprint
+      ? await findStaleReason(file, fingerprint)
+      : "Missing from the plan's fingerprints"
+
+    if (reason) {
+      problems.push({ path: file.path, reason })
+    }
+  }
+
+  return problems
+}
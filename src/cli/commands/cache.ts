@@ -0,0 +1,58 @@
+import chalk from "chalk"
+import { hashCache } from "../../utils/hash-cache"
+import { formatFileSize, formatRelativeTime } from "../../utils/file-utils"
+import { logger } from "../../utils/logger"
+
+interface CachePruneOptions {
+  olderThan?: number
+}
+
+export async function cacheStatsCommand(): Promise<void> {
+  console.log(chalk.cyan.bold("🗄️  Duplicate Finder - Hash Cache"))
+
+  const stats = await hashCache.stats()
+
+  console.log(chalk.gray(`Location: ${stats.cachePath}\n`))
+  console.log(chalk.white(`• Cached files: ${stats.entryCount}`))
+  console.log(chalk.white(`• Full hashes: ${stats.fullHashCount}`))
+  console.log(chalk.white(`• Cache size: ${formatFileSize(stats.fileSize)}`))
+  if (stats.oldestEntry) {
+    console.log(
+      chalk.white(
+        `• Least recently used entry: ${formatRelativeTime(stats.oldestEntry)}`
+      )
+    )
+  }
+}
+
+export async function cachePruneCommand(
+  options: CachePruneOptions
+): Promise<void> {
+  console.log(chalk.cyan.bold("🗄️  Duplicate Finder - Prune Hash Cache"))
+
+  try {
+    const removed = await hashCache.prune(options.olderThan)
+    console.log(chalk.green(`✅ Removed ${removed} stale cache entries`))
+  } catch (error) {
+    logger.error("Hash cache prune failed", { error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+}
+
+export async function cacheClearCommand(): Promise<void> {
+  try {
+    await hashCache.clear()
+    console.log(chalk.green("✅ Hash cache cleared"))
+  } catch (error) {
+    logger.error("Hash cache clear failed", { error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+}
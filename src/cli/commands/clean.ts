@@ -0,0 +1,278 @@
+import { resolve } from "path"
+import chalk from "chalk"
+import ora from "ora"
+import inquirer from "inquirer"
+import { FileScanner } from "../../scanner/file-scanner"
+import { DuplicateDetector } from "../../detector/duplicate-detector"
+import { ActionExecutor } from "../../executor/action-executor"
+import {
+  KeeperSelector,
+  parseKeepStrategies
+} from "../../executor/keep-strategy"
+import {
+  DuplicateAction,
+  DuplicateGroup,
+  DuplicateType
+} from "../../types/duplicate"
+import { applyColorScheme } from "../../ui/color-scheme"
+import { formatScanProgress } from "../../ui/progress"
+import { formatFileSize } from "../../utils/file-utils"
+import { loadConfig } from "../../utils/config"
+import { Quarantine } from "../../utils/quarantine"
+import { logger } from "../../utils/logger"
+import { openScanRoots, printScanRoots } from "./scan"
+
+// Shared by clean and apply: 0 means done (or nothing to do), 1 is an error
+// before anything ran
+export const EXIT_ACTIONS_FAILED = 2
+export const EXIT_REFUSED = 3
+
+const CLEAN_ACTIONS: DuplicateAction[] = [
+  DuplicateAction.DELETE,
+  DuplicateAction.TRASH,
+  DuplicateAction.MOVE,
+  DuplicateAction.HARDLINK,
+  DuplicateAction.SYMLINK,
+  DuplicateAction.REFLINK
+]
+
+interface CleanOptions {
+  keep?: string
+  action?: string
+  quarantine?: string
+  dryRun?: boolean
+  yes?: boolean
+  maxDelete?: number
+  all?: boolean
+  maxDepth?: number
+  cache?: boolean
+  concurrency?: number
+  maxFileSize?: number
+  undo?: boolean
+  reference?: string[]
+}
+
+export async function cleanCommand(
+  directories: string[],
+  options: CleanOptions
+): Promise<void> {
+  const roots = await openScanRoots(directories, options.reference)
+  const targetDir = roots[0].path
+  const config = await loadConfig(targetDir, {
+    maxFileSize: options.maxFileSize,
+    enableUndo: options.undo === false ? false : undefined,
+    quarantineDirectory: options.quarantine && resolve(options.quarantine)
+  })
+  applyColorScheme(config.colorScheme)
+
+  console.log(chalk.cyan.bold("🧹 Duplicate Finder - Clean Mode"))
+  printScanRoots(roots, "Directory")
+  if (options.dryRun) {
+    console.log(chalk.magenta("🧪 Dry run: nothing will be changed"))
+  }
+  console.log()
+
+  let action: DuplicateAction
+  let keeperSelector: KeeperSelector
+  let quarantine: Quarantine | undefined
+
+  try {
+    action = parseCleanAction(options.action || config.defaultDestructiveAction)
+    if (action === DuplicateAction.MOVE) {
+      if (!config.quarantineDirectory) {
+        throw new Error("--action move needs --quarantine <directory>")
+      }
+      quarantine = new Quarantine(config.quarantineDirectory, targetDir)
+    }
+
+    keeperSelector = new KeeperSelector(
+      options.keep
+        ? {
+            ...config.defaultActions,
+            keepStrategy: parseKeepStrategies(options.keep)
+          }
+        : config.defaultActions
+    )
+  } catch (error) {
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+
+  let spinner = ora("Scanning files...").start()
+  const scanner = new FileScanner(
+    {
+      directory: targetDir,
+      roots,
+      includeHidden: options.all || false,
+      followSymlinks: false,
+      ignorePatterns: config.ignorePatterns,
+      maxDepth: options.maxDepth,
+      maxFileSize: config.maxFileSize,
+      useCache: options.cache !== false,
+      concurrency: options.concurrency
+    },
+    (progress) => {
+      spinner.text = formatScanProgress(progress)
+    }
+  )
+  let scanResult
+
+  try {
+    scanResult = await scanner.scan()
+    spinner.succeed(`Scanned ${scanResult.totalFiles} files`)
+  } catch (error) {
+    spinner.fail("Failed to scan files")
+    logger.error("Clean scan failed", { error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+
+  spinner = ora("Detecting duplicates...").start()
+  let duplicateGroups: DuplicateGroup[]
+
+  try {
+    const detector = new DuplicateDetector(
+      scanResult.files,
+      scanResult.directories,
+      // Folder groups are dropped below, so they aren't looked for and
+      // nothing may be folded into them
+      { detectFolders: false, collapseNestedGroups: false }
+    )
+    // Only byte-identical files are safe to remove without a human looking
+    duplicateGroups = (await detector.detectDuplicates()).filter(
+      (group) => group.type === DuplicateType.CONTENT_BASED
+    )
+    spinner.succeed(`Found ${duplicateGroups.length} groups of identical files`)
+  } catch (error) {
+    spinner.fail("Failed to detect duplicates")
+    logger.error("Clean duplicate detection failed", { error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+
+  if (duplicateGroups.length === 0) {
+    console.log(chalk.green("\n🎉 No duplicates found, nothing to clean."))
+    return
+  }
+
+  keeperSelector.apply(
+    duplicateGroups,
+    action,
+    quarantine && ((path) => quarantine.targetPathFor(path))
+  )
+
+  const plans = ActionExecutor.createPlans(duplicateGroups)
+  const affectedFiles = plans.reduce(
+    (sum, plan) => sum + plan.selectedActions.size,
+    0
+  )
+  const estimatedSavings = plans.reduce(
+    (sum, plan) => sum + plan.estimatedSavings,
+    0
+  )
+
+  console.log(chalk.yellow("\n📋 Plan:"))
+  console.log(chalk.white(`• Action: ${action}`))
+  console.log(chalk.white(`• Files affected: ${affectedFiles}`))
+  console.log(
+    chalk.green(`• Space reclaimed: ${formatFileSize(estimatedSavings)}`)
+  )
+
+  if (options.maxDelete !== undefined && affectedFiles > options.maxDelete) {
+    console.error(
+      chalk.red(
+        `\n❌ Refusing to ${action} ${affectedFiles} files, the limit is ${options.maxDelete} (--max-delete)`
+      )
+    )
+    process.exit(EXIT_REFUSED)
+  }
+
+  if (
+    !options.dryRun &&
+    !options.yes &&
+    !(await confirmChanges(affectedFiles))
+  ) {
+    console.error(chalk.yellow("\nNothing was changed"))
+    process.exit(EXIT_REFUSED)
+  }
+
+  const executor = new ActionExecutor({
+    enableUndo: config.enableUndo,
+    dryRun: options.dryRun,
+    transactional: true,
+    quarantine
+  })
+  const results = await executor.execute(plans, (result) => {
+    if (!result.success) {
+      console.log(
+        chalk.red(`❌ ${result.action}: ${result.path} (${result.error})`)
+      )
+    }
+  })
+
+  const failed = results.filter((result) => !result.success).length
+  const rolledBack = results.filter((result) => result.rolledBack).length
+
+  console.log(chalk.yellow("\n📊 Summary:"))
+  console.log(
+    chalk.white(
+      `• ${options.dryRun ? "Simulated" : "Applied"}: ${results.length - failed} files`
+    )
+  )
+  if (failed > 0) {
+    console.log(chalk.red(`• Failed: ${failed} files`))
+  }
+  if (rolledBack > 0) {
+    console.log(
+      chalk.yellow(`• Rolled back: ${rolledBack} files after the failure`)
+    )
+  }
+  if (failed === 0 && !options.dryRun) {
+    console.log(
+      chalk.green(`• Space reclaimed: ${formatFileSize(estimatedSavings)}`)
+    )
+  }
+
+  if (failed > 0) {
+    process.exit(EXIT_ACTIONS_FAILED)
+  }
+}
+
+function parseCleanAction(name: string): DuplicateAction {
+  const action = CLEAN_ACTIONS.find((candidate) => candidate === name)
+  if (!action) {
+    throw new Error(
+      `Unknown action "${name}" (expected: ${CLEAN_ACTIONS.join(", ")})`
+    )
+  }
+  return action
+}
+
+// Without a terminal to ask on, --yes is the only way to confirm
+export async function confirmChanges(affectedFiles: number): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    console.error(
+      chalk.red("\n❌ Not running in a terminal, pass --yes to apply changes")
+    )
+    return false
+  }
+
+  const { confirmed } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "confirmed",
+      message: `This changes ${affectedFiles} files on disk. Are you sure?`,
+      default: false
+    }
+  ])
+  return confirmed
+}
@@ -0,0 +1,90 @@
+import { join } from "path"
+import chalk from "chalk"
+import { AppConfig } from "../../types/config"
+import {
+  ConfigManager,
+  configManager,
+  PROJECT_CONFIG_FILE
+} from "../../utils/config"
+import { logger } from "../../utils/logger"
+
+interface ConfigTargetOptions {
+  project?: boolean
+}
+
+export async function configListCommand(): Promise<void> {
+  const config = await configManager.load(process.cwd())
+
+  console.log(chalk.cyan.bold("⚙️  Duplicate Finder - Configuration"))
+  console.log(chalk.gray(`User config: ${configManager.getConfigPath()}`))
+  console.log(
+    chalk.gray(
+      `Project config: ${configManager.getProjectConfigPath() || "(none)"}\n`
+    )
+  )
+
+  for (const [key, value] of Object.entries(config)) {
+    console.log(`${chalk.white(key)} = ${chalk.green(JSON.stringify(value))}`)
+  }
+}
+
+export async function configGetCommand(key: string): Promise<void> {
+  if (!ConfigManager.isConfigKey(key)) {
+    exitWithError(`Unknown configuration key: ${key}`)
+  }
+
+  const config = await configManager.load(process.cwd())
+  console.log(JSON.stringify(config[key], null, 2))
+}
+
+export async function configSetCommand(
+  key: string,
+  value: string,
+  options: ConfigTargetOptions
+): Promise<void> {
+  if (!ConfigManager.isConfigKey(key)) {
+    exitWithError(`Unknown configuration key: ${key}`)
+  }
+
+  try {
+    const parsedValue = ConfigManager.parseValue(key, value)
+    const targetPath = getTargetPath(options)
+
+    await configManager.save(
+      { [key]: parsedValue } as Partial<AppConfig>,
+      targetPath
+    )
+    console.log(
+      chalk.green(`✅ ${key} = ${JSON.stringify(parsedValue)}`),
+      chalk.gray(`(${targetPath})`)
+    )
+  } catch (error) {
+    logger.error("Failed to set configuration value", { key, error })
+    exitWithError(error instanceof Error ? error.message : "Unknown error")
+  }
+}
+
+export async function configResetCommand(
+  options: ConfigTargetOptions
+): Promise<void> {
+  const targetPath = getTargetPath(options)
+
+  try {
+    await configManager.resetFile(targetPath)
+    console.log(chalk.green(`✅ Configuration reset: ${targetPath}`))
+  } catch (error) {
+    logger.error("Failed to reset configuration", { targetPath, error })
+    exitWithError(error instanceof Error ? error.message : "Unknown error")
+  }
+}
+
+function getTargetPath(options: ConfigTargetOptions): string {
+  return options.project
+    ? join(process.cwd(), PROJECT_CONFIG_FILE)
+    : configManager.getConfigPath()
+}
+
+function exitWithError(message: string): never {
+  console.error(chalk.red("Error:"), message)
+  process.exit(1)
+}
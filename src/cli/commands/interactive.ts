@@ -4,24 +4,116 @@ import ora from "ora"
 import { FileScanner } from "../../scanner/file-scanner"
 import { DuplicateDetector } from "../../detector/duplicate-detector"
 import { InteractiveUI } from "../../ui/interactive-ui"
-import { DEFAULT_CONFIG } from "../../types/config"
+import { AppConfig } from "../../types/config"
+import { DuplicateAction, DuplicateGroup } from "../../types/duplicate"
+import {
+  KeeperSelector,
+  parseKeepStrategies
+} from "../../executor/keep-strategy"
+import { Quarantine } from "../../utils/quarantine"
+import { applyColorScheme } from "../../ui/color-scheme"
+import { formatScanProgress } from "../../ui/progress"
+import { loadConfig } from "../../utils/config"
+import { readScanFile } from "../../utils/scan-file"
 import { logger } from "../../utils/logger"
+import { openScanRoots, printScanRoots } from "./scan"
 
-export async function interactiveCommand(directory: string): Promise<void> {
-  const targetDir = resolve(directory)
+interface InteractiveOptions {
+  dryRun?: boolean
+  input?: string
+  cache?: boolean
+  concurrency?: number
+  workerThreads?: boolean
+  maxFileSize?: number
+  undo?: boolean
+  confirm?: boolean
+  quarantine?: string
+  keep?: string
+  reference?: string[]
+  similarImages?: boolean
+  similarText?: boolean
+  similarMedia?: boolean
+  similarFolders?: boolean
+  collapse?: boolean
+  archives?: boolean
+}
+
+export async function interactiveCommand(
+  directories: string[],
+  options: InteractiveOptions = {}
+): Promise<void> {
+  const roots = await openScanRoots(directories, options.reference)
+  const targetDir = roots[0].path
+  const config = await loadConfig(targetDir, {
+    maxFileSize: options.maxFileSize,
+    detectSimilarImages: options.similarImages || undefined,
+    detectSimilarText: options.similarText || undefined,
+    detectSimilarMedia: options.similarMedia || undefined,
+    detectSimilarFolders: options.similarFolders || undefined,
+    collapseNestedGroups: options.collapse === false ? false : undefined,
+    scanArchives: options.archives || undefined,
+    enableUndo: options.undo === false ? false : undefined,
+    confirmDestructiveActions: options.confirm === false ? false : undefined,
+    quarantineDirectory: options.quarantine && resolve(options.quarantine)
+  })
+  applyColorScheme(config.colorScheme)
+
+  if (options.keep) {
+    try {
+      config.defaultActions = {
+        ...config.defaultActions,
+        keepStrategy: parseKeepStrategies(options.keep)
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("Error:"),
+        error instanceof Error ? error.message : "Unknown error"
+      )
+      process.exit(1)
+    }
+  }
 
   console.clear()
   console.log(chalk.cyan.bold("🔍 Duplicate Finder - Interactive Mode"))
-  console.log(chalk.gray(`Directory: ${targetDir}\n`))
 
-  const scanner = new FileScanner({
-    directory: targetDir,
-    includeHidden: false,
-    followSymlinks: false,
-    ignorePatterns: DEFAULT_CONFIG.ignorePatterns
-  })
+  if (options.input) {
+    await launchFromScanFile(resolve(options.input), options, config)
+    return
+  }
+
+  printScanRoots(roots, "Directory")
+  if (options.dryRun) {
+    console.log(chalk.magenta("🧪 Dry run: actions are previewed, not applied"))
+  }
+  console.log()
 
   let spinner = ora("Scanning files...").start()
+  const scanner = new FileScanner(
+    {
+      directory: targetDir,
+      roots,
+      includeHidden: false,
+      followSymlinks: false,
+      ignorePatterns: config.ignorePatterns,
+      maxFileSize: config.maxFileSize,
+      useCache: options.cache !== false,
+      concurrency: options.concurrency,
+      useWorkerThreads: options.workerThreads || false,
+      imageHashAlgorithm: config.detectSimilarImages
+        ? config.imageHashAlgorithm
+        : undefined,
+      textExtensions: config.detectSimilarText
+        ? config.textExtensions
+        : undefined,
+      mediaAnalysis: config.detectSimilarMedia
+        ? { fingerprints: config.mediaFingerprints }
+        : undefined,
+      scanArchives: config.scanArchives
+    },
+    (progress) => {
+      spinner.text = formatScanProgress(progress)
+    }
+  )
   let scanResult
 
   try {
@@ -38,35 +130,137 @@ export async function interactiveCommand(directory: string): Promise<void> {
   }
 
   spinner = ora("Detecting duplicates...").start()
+  let duplicateGroups: DuplicateGroup[]
 
   try {
     const detector = new DuplicateDetector(
       scanResult.files,
-      scanResult.directories
+      scanResult.directories,
+      {
+        nameMatching: config.nameMatching,
+        imageSimilarityThreshold: config.imageSimilarityThreshold,
+        textSimilarityThreshold: config.textSimilarityThreshold,
+        mediaDurationTolerance: config.mediaDurationTolerance,
+        folderSimilarityThreshold: config.detectSimilarFolders
+          ? config.folderSimilarityThreshold
+          : undefined,
+        collapseNestedGroups: config.collapseNestedGroups
+      }
     )
-    const duplicateGroups = await detector.detectDuplicates()
+    duplicateGroups = await detector.detectDuplicates()
 
     spinner.succeed(`Found ${duplicateGroups.length} duplicate groups`)
+  } catch (error) {
+    spinner.fail("Failed to detect duplicates")
+    logger.error("Interactive duplicate detection failed", { error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+
+  await launchUI(duplicateGroups, targetDir, options, config)
+}
+
+async function launchFromScanFile(
+  inputFile: string,
+  options: InteractiveOptions,
+  config: AppConfig
+): Promise<void> {
+  const spinner = ora(`Loading scan results from ${inputFile}...`).start()
+
+  try {
+    const scanFile = await readScanFile(inputFile)
+    spinner.succeed(
+      `Loaded ${scanFile.duplicateGroups.length} duplicate groups (scanned ${scanFile.generatedAt.toLocaleString()})`
+    )
 
-    if (duplicateGroups.length === 0) {
+    console.log(chalk.gray(`Directory: ${scanFile.baseDirectory}`))
+    if (options.dryRun) {
       console.log(
-        chalk.green("\n🎉 No duplicates found! Your directory is clean.")
+        chalk.magenta("🧪 Dry run: actions are previewed, not applied")
       )
-      return
     }
 
-    // Launch interactive UI
-    console.log(chalk.gray("\n🎯 Launching interactive duplicate manager...\n"))
+    await launchUI(
+      scanFile.duplicateGroups,
+      scanFile.baseDirectory,
+      options,
+      config
+    )
+  } catch (error) {
+    spinner.fail("Failed to load scan results")
+    logger.error("Loading scan results failed", { inputFile, error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+}
+
+async function launchUI(
+  duplicateGroups: DuplicateGroup[],
+  baseDirectory: string,
+  options: InteractiveOptions,
+  config: AppConfig
+): Promise<void> {
+  if (duplicateGroups.length === 0) {
+    console.log(
+      chalk.green("\n🎉 No duplicates found! Your directory is clean.")
+    )
+    return
+  }
+
+  if (options.keep) {
+    preselectKeepers(duplicateGroups, baseDirectory, options, config)
+  }
+
+  // Launch interactive UI
+  console.log(chalk.gray("\n🎯 Launching interactive duplicate manager...\n"))
+
+  const ui = new InteractiveUI(duplicateGroups, baseDirectory, {
+    dryRun: options.dryRun || false,
+    config
+  })
+  await ui.start()
+}
+
+// Marks a keeper in every group up front, leaving only the review to the user
+function preselectKeepers(
+  duplicateGroups: DuplicateGroup[],
+  baseDirectory: string,
+  options: InteractiveOptions,
+  config: AppConfig
+): void {
+  const quarantine = options.quarantine
+    ? new Quarantine(config.quarantineDirectory, baseDirectory)
+    : undefined
+  const removeAction = quarantine
+    ? DuplicateAction.MOVE
+    : config.defaultDestructiveAction === "trash"
+      ? DuplicateAction.TRASH
+      : DuplicateAction.DELETE
 
-    const ui = new InteractiveUI(duplicateGroups, targetDir)
-    await ui.start()
+  try {
+    new KeeperSelector(config.defaultActions).apply(
+      duplicateGroups,
+      removeAction,
+      quarantine && ((path) => quarantine.targetPathFor(path))
+    )
   } catch (error) {
-    spinner.fail("Failed to detect duplicates")
-    logger.error("Interactive duplicate detection failed", { error })
+    logger.error("Keeper selection failed", { error })
     console.error(
       chalk.red("Error:"),
       error instanceof Error ? error.message : "Unknown error"
     )
     process.exit(1)
   }
+
+  console.log(
+    chalk.gray(
+      `🤖 Keepers preselected with: ${config.defaultActions.keepStrategy!.join(", ")}`
+    )
+  )
 }
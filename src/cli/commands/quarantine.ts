@@ -0,0 +1,130 @@
+import { resolve } from "path"
+import chalk from "chalk"
+import inquirer from "inquirer"
+import { Quarantine } from "../../utils/quarantine"
+import { formatFileSize, formatRelativeTime } from "../../utils/file-utils"
+import { loadConfig } from "../../utils/config"
+import { applyColorScheme } from "../../ui/color-scheme"
+import { logger } from "../../utils/logger"
+
+interface QuarantinePurgeOptions {
+  yes?: boolean
+}
+
+export async function quarantineListCommand(directory?: string): Promise<void> {
+  const quarantine = await openQuarantine(directory)
+
+  console.log(chalk.cyan.bold("📦 Duplicate Finder - Quarantine"))
+  console.log(chalk.gray(`Folder: ${quarantine.directory}`))
+
+  try {
+    const entries = await quarantine.list()
+    if (entries.length === 0) {
+      console.log(chalk.gray("\nThe quarantine is empty"))
+      return
+    }
+
+    console.log()
+    for (const entry of entries) {
+      console.log(chalk.white(entry.originalPath))
+      console.log(
+        chalk.gray(
+          `   ${formatFileSize(entry.size)} • quarantined ${formatRelativeTime(entry.quarantinedAt)}`
+        )
+      )
+    }
+
+    const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0)
+    console.log(
+      chalk.yellow(
+        `\n📊 ${entries.length} files, ${formatFileSize(totalSize)} in quarantine`
+      )
+    )
+  } catch (error) {
+    fail("Failed to read quarantine", error)
+  }
+}
+
+export async function quarantineRestoreCommand(
+  directory?: string
+): Promise<void> {
+  const quarantine = await openQuarantine(directory)
+
+  try {
+    const result = await quarantine.restore()
+
+    for (const entry of result.restored) {
+      console.log(chalk.green(`✅ Restored ${entry.originalPath}`))
+    }
+    for (const { entry, reason } of result.skipped) {
+      console.log(chalk.yellow(`⚠️  Skipped ${entry.originalPath} (${reason})`))
+    }
+
+    console.log(
+      chalk.white(
+        `\n📊 ${result.restored.length} restored, ${result.skipped.length} skipped`
+      )
+    )
+    if (result.skipped.length > 0) {
+      process.exit(1)
+    }
+  } catch (error) {
+    fail("Failed to restore quarantine", error)
+  }
+}
+
+export async function quarantinePurgeCommand(
+  directory: string | undefined,
+  options: QuarantinePurgeOptions
+): Promise<void> {
+  const quarantine = await openQuarantine(directory)
+
+  if (!options.yes) {
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmed",
+        message: `Permanently delete everything quarantined in ${quarantine.directory}?`,
+        default: false
+      }
+    ])
+    if (!confirmed) return
+  }
+
+  try {
+    const result = await quarantine.purge()
+    console.log(chalk.green(`✅ Purged ${result.removed} quarantined files`))
+    console.log(
+      chalk.green(`• Space freed: ${formatFileSize(result.freedBytes)}`)
+    )
+  } catch (error) {
+    fail("Failed to purge quarantine", error)
+  }
+}
+
+// Falls back to the configured quarantine folder when none is given
+async function openQuarantine(directory?: string): Promise<Quarantine> {
+  const config = await loadConfig(process.cwd())
+  applyColorScheme(config.colorScheme)
+
+  const quarantineDirectory = directory || config.quarantineDirectory
+  if (!quarantineDirectory) {
+    console.error(
+      chalk.red(
+        "Error: no quarantine folder given and quarantineDirectory is not configured"
+      )
+    )
+    process.exit(1)
+  }
+
+  return new Quarantine(resolve(quarantineDirectory))
+}
+
+function fail(message: string, error: unknown): never {
+  logger.error(message, { error })
+  console.error(
+    chalk.red("Error:"),
+    error instanceof Error ? error.message : "Unknown error"
+  )
+  process.exit(1)
+}
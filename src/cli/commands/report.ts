@@ -1,16 +1,22 @@
 import { resolve } from "path"
-import { promises as fs } from "fs"
 import chalk from "chalk"
 import { MarkdownReporter } from "../../reporter/markdown-reporter"
-import { DuplicateGroup } from "../../types/duplicate"
+import { readScanFile } from "../../utils/scan-file"
+import { loadConfig } from "../../utils/config"
+import { applyColorScheme } from "../../ui/color-scheme"
 import { logger } from "../../utils/logger"
 
 interface ReportOptions {
   input?: string
-  output: string
+  output?: string
 }
 
 export async function reportCommand(options: ReportOptions): Promise<void> {
+  const config = await loadConfig(process.cwd(), {
+    reportOutputPath: options.output
+  })
+  applyColorScheme(config.colorScheme)
+
   console.log(chalk.cyan.bold("📋 Duplicate Finder - Report Generation"))
 
   if (!options.input) {
@@ -26,20 +32,21 @@ export async function reportCommand(options: ReportOptions): Promise<void> {
   }
 
   const inputFile = resolve(options.input)
-  const outputFile = resolve(options.output)
+  const outputFile = resolve(config.reportOutputPath)
 
   console.log(chalk.gray(`Input: ${inputFile}`))
   console.log(chalk.gray(`Output: ${outputFile}\n`))
 
   try {
-    // Load duplicate groups from JSON file
-    const scanData = await fs.readFile(inputFile, "utf-8")
-    const parsedData = JSON.parse(scanData)
-    const duplicateGroups: DuplicateGroup[] = parsedData.duplicateGroups || []
-    const baseDirectory: string = parsedData.baseDirectory || "."
+    // Load duplicate groups from the scan results file
+    const scanFile = await readScanFile(inputFile)
 
     const reporter = new MarkdownReporter()
-    await reporter.generateReport(duplicateGroups, outputFile, baseDirectory)
+    await reporter.generateReport(
+      scanFile.duplicateGroups,
+      outputFile,
+      scanFile.baseDirectory
+    )
 
     console.log(chalk.green("✅ Report generated successfully!"))
     console.log(chalk.gray(`📄 Report saved to: ${outputFile}`))
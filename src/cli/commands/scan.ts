@@ -1,36 +1,82 @@
+import { promises as fs } from "fs"
 import { resolve } from "path"
 import chalk from "chalk"
 import ora from "ora"
 import { FileScanner } from "../../scanner/file-scanner"
 import { DuplicateDetector } from "../../detector/duplicate-detector"
-import { DEFAULT_CONFIG } from "../../types/config"
+import { applyColorScheme } from "../../ui/color-scheme"
+import { formatScanProgress } from "../../ui/progress"
+import { ScanRoot } from "../../types/file"
 import { formatFileSize } from "../../utils/file-utils"
+import { serializeScan, writeScanFile } from "../../utils/scan-file"
+import { loadConfig } from "../../utils/config"
 import { logger } from "../../utils/logger"
 
 interface ScanOptions {
   all?: boolean
   maxDepth?: number
   output?: string
+  cache?: boolean
+  concurrency?: number
+  workerThreads?: boolean
+  maxFileSize?: number
+  reference?: string[]
+  similarImages?: boolean
+  similarText?: boolean
+  similarMedia?: boolean
+  similarFolders?: boolean
+  collapse?: boolean
+  archives?: boolean
 }
 
 export async function scanCommand(
-  directory: string,
+  directories: string[],
   options: ScanOptions
 ): Promise<void> {
-  const targetDir = resolve(directory)
+  const roots = await openScanRoots(directories, options.reference)
+  const targetDir = roots[0].path
+  const config = await loadConfig(targetDir, {
+    maxFileSize: options.maxFileSize,
+    detectSimilarImages: options.similarImages || undefined,
+    detectSimilarText: options.similarText || undefined,
+    detectSimilarMedia: options.similarMedia || undefined,
+    detectSimilarFolders: options.similarFolders || undefined,
+    collapseNestedGroups: options.collapse === false ? false : undefined,
+    scanArchives: options.archives || undefined
+  })
+  applyColorScheme(config.colorScheme)
 
   console.log(chalk.cyan.bold("🔍 Duplicate Finder - Scan Mode"))
-  console.log(chalk.gray(`Scanning: ${targetDir}\n`))
+  printScanRoots(roots, "Scanning")
+  console.log()
 
-  const scanner = new FileScanner({
+  const scanOptions = {
     directory: targetDir,
+    roots,
     includeHidden: options.all || false,
     followSymlinks: false,
-    ignorePatterns: DEFAULT_CONFIG.ignorePatterns,
-    maxDepth: options.maxDepth
-  })
+    ignorePatterns: config.ignorePatterns,
+    maxDepth: options.maxDepth,
+    maxFileSize: config.maxFileSize,
+    useCache: options.cache !== false,
+    concurrency: options.concurrency,
+    useWorkerThreads: options.workerThreads || false,
+    imageHashAlgorithm: config.detectSimilarImages
+      ? config.imageHashAlgorithm
+      : undefined,
+    textExtensions: config.detectSimilarText
+      ? config.textExtensions
+      : undefined,
+    mediaAnalysis: config.detectSimilarMedia
+      ? { fingerprints: config.mediaFingerprints }
+      : undefined,
+    scanArchives: config.scanArchives
+  }
 
   let spinner = ora("Scanning files...").start()
+  const scanner = new FileScanner(scanOptions, (progress) => {
+    spinner.text = formatScanProgress(progress)
+  })
   let scanResult
 
   try {
@@ -53,7 +99,17 @@ export async function scanCommand(
   try {
     const detector = new DuplicateDetector(
       scanResult.files,
-      scanResult.directories
+      scanResult.directories,
+      {
+        nameMatching: config.nameMatching,
+        imageSimilarityThreshold: config.imageSimilarityThreshold,
+        textSimilarityThreshold: config.textSimilarityThreshold,
+        mediaDurationTolerance: config.mediaDurationTolerance,
+        folderSimilarityThreshold: config.detectSimilarFolders
+          ? config.folderSimilarityThreshold
+          : undefined,
+        collapseNestedGroups: config.collapseNestedGroups
+      }
     )
     const duplicateGroups = await detector.detectDuplicates()
     const stats = DuplicateDetector.calculateStats(duplicateGroups)
@@ -97,8 +153,51 @@ export async function scanCommand(
         )
       )
     }
+    if (stats.groupsByType["similar-folder"] > 0) {
+      console.log(
+        chalk.cyan(
+          `• Similar folders: ${stats.groupsByType["similar-folder"]} groups`
+        )
+      )
+    }
+    if (stats.groupsByType["similar-image"] > 0) {
+      console.log(
+        chalk.cyan(
+          `• Similar images: ${stats.groupsByType["similar-image"]} groups`
+        )
+      )
+    }
+    if (stats.groupsByType["similar-text"] > 0) {
+      console.log(
+        chalk.cyan(
+          `• Similar text files: ${stats.groupsByType["similar-text"]} groups`
+        )
+      )
+    }
+    if (stats.groupsByType["similar-media"] > 0) {
+      console.log(
+        chalk.cyan(
+          `• Similar media: ${stats.groupsByType["similar-media"]} groups`
+        )
+      )
+    }
 
     console.log(chalk.gray(`\n⏱️  Scan completed in ${scanResult.scanTime}ms`))
+
+    if (options.output) {
+      const outputFile = resolve(options.output)
+      await writeScanFile(
+        outputFile,
+        serializeScan(scanResult, duplicateGroups, scanOptions)
+      )
+      console.log(chalk.gray(`💾 Results saved to: ${outputFile}`))
+      console.log(
+        chalk.gray(
+          `\n💡 Use "duplicates-finder report -i ${options.output}" to generate a report`
+        )
+      )
+    }
+
     console.log(
       chalk.gray(
         '\n💡 Use "duplicates-finder interactive" to manage duplicates interactively'
@@ -114,3 +213,45 @@ export async function scanCommand(
     process.exit(1)
   }
 }
+
+// The first directory given is the base for config lookup and saved results.
+// A path given both ways is treated as a reference.
+export async function openScanRoots(
+  directories: string[],
+  references: string[] = []
+): Promise<ScanRoot[]> {
+  const referencePaths = references.map((directory) => resolve(directory))
+  const roots: ScanRoot[] = [
+    ...directories
+      .map((directory) => resolve(directory))
+      .filter((path) => !referencePaths.includes(path))
+      .map((path) => ({ path, readOnly: false })),
+    ...referencePaths.map((path) => ({ path, readOnly: true }))
+  ].filter(
+    (root, index, all) => all.findIndex((r) => r.path === root.path) === index
+  )
+
+  for (const root of roots) {
+    const stats = await fs.stat(root.path).catch(() => undefined)
+    if (!stats?.isDirectory()) {
+      console.error(chalk.red("Error:"), `${root.path} is not a directory`)
+      process.exit(1)
+    }
+  }
+
+  return roots
+}
+
+export function printScanRoots(roots: ScanRoot[], label: string): void {
+  if (roots.length === 1 && !roots[0].readOnly) {
+    console.log(chalk.gray(`${label}: ${roots[0].path}`))
+    return
+  }
+
+  console.log(chalk.gray(`${label}:`))
+  for (const root of roots) {
+    console.log(
+      chalk.gray(`  • ${root.path}${root.readOnly ? " (reference)" : ""}`)
+    )
+  }
+}
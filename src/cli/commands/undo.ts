@@ -0,0 +1,185 @@
+import chalk from "chalk"
+import inquirer from "inquirer"
+import {
+  undoSystem,
+  UndoBatchResult,
+  UndoOperation
+} from "../../utils/undo-system"
+import { formatFileSize, formatRelativeTime } from "../../utils/file-utils"
+import { loadConfig } from "../../utils/config"
+import { logger } from "../../utils/logger"
+
+interface UndoListOptions {
+  limit: number
+}
+
+interface GcOptions {
+  maxAge?: number
+  maxSize?: number
+}
+
+interface UndoClearOptions {
+  yes?: boolean
+}
+
+export async function undoListCommand(options: UndoListOptions): Promise<void> {
+  await undoSystem.initialize()
+
+  console.log(chalk.cyan.bold("↩️  Duplicate Finder - Undo History"))
+  const operations = await undoSystem.getRecentOperations(options.limit)
+
+  if (operations.length === 0) {
+    console.log(chalk.gray("\nNo recorded operations"))
+    return
+  }
+
+  console.log()
+  operations.forEach((operation) => printOperation(operation))
+}
+
+export async function undoSessionsCommand(): Promise<void> {
+  await undoSystem.initialize()
+
+  console.log(chalk.cyan.bold("↩️  Duplicate Finder - Undo Sessions"))
+  const sessions = await undoSystem.getSessions()
+
+  if (sessions.length === 0) {
+    console.log(chalk.gray("\nNo recorded sessions"))
+    return
+  }
+
+  console.log()
+  for (const session of sessions) {
+    console.log(chalk.white(session.sessionId))
+    console.log(
+      chalk.gray(
+        `   ${session.operationCount} operations • ${formatRelativeTime(session.startedAt)} (${session.startedAt.toLocaleString()})`
+      )
+    )
+  }
+}
+
+export async function undoOperationCommand(operationId: string): Promise<void> {
+  await undoSystem.initialize()
+
+  if (await undoSystem.undoOperation(operationId)) {
+    console.log(chalk.green(`✅ Undone: ${operationId}`))
+  } else {
+    console.error(chalk.red(`❌ Could not undo ${operationId}`))
+    process.exit(1)
+  }
+}
+
+export async function undoLastCommand(count: number = 1): Promise<void> {
+  await undoSystem.initialize()
+  reportBatch(await undoSystem.undoLast(count))
+}
+
+export async function undoSessionCommand(sessionId: string): Promise<void> {
+  await undoSystem.initialize()
+  reportBatch(await undoSystem.undoSession(sessionId))
+}
+
+export async function undoClearCommand(
+  options: UndoClearOptions
+): Promise<void> {
+  await undoSystem.initialize()
+
+  if (!options.yes) {
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmed",
+        message:
+          "Clear the undo history and delete all backups? This cannot be undone.",
+        default: false
+      }
+    ])
+    if (!confirmed) return
+  }
+
+  try {
+    await undoSystem.clearHistory()
+    console.log(chalk.green("✅ Undo history cleared"))
+  } catch (error) {
+    logger.error("Failed to clear undo history", { error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+}
+
+export async function gcCommand(options: GcOptions): Promise<void> {
+  const config = await loadConfig(process.cwd(), {
+    backupRetentionDays: options.maxAge,
+    backupMaxSize: options.maxSize
+  })
+  await undoSystem.initialize()
+
+  console.log(chalk.cyan.bold("🧹 Duplicate Finder - Backup Cleanup"))
+  console.log(
+    chalk.gray(
+      `Retention: ${config.backupRetentionDays ? `${config.backupRetentionDays} days` : "unlimited"}, ` +
+        `max size: ${config.backupMaxSize ? formatFileSize(config.backupMaxSize) : "unlimited"}\n`
+    )
+  )
+
+  try {
+    const result = await undoSystem.collectGarbage({
+      maxAgeDays: config.backupRetentionDays,
+      maxTotalSize: config.backupMaxSize
+    })
+
+    console.log(
+      chalk.white(`• Expired undo operations: ${result.expiredOperations}`)
+    )
+    console.log(chalk.white(`• Backups removed: ${result.removedBackups}`))
+    console.log(
+      chalk.green(`• Space freed: ${formatFileSize(result.freedBytes)}`)
+    )
+  } catch (error) {
+    logger.error("Backup garbage collection failed", { error })
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : "Unknown error"
+    )
+    process.exit(1)
+  }
+}
+
+function printOperation(operation: UndoOperation): void {
+  const target = operation.newPath || operation.linkTarget
+  const destination = target ? ` → ${target}` : ""
+
+  console.log(
+    chalk.white(
+      `${operation.id}  ${operation.action.toUpperCase()}  ${operation.originalPath}${destination}`
+    )
+  )
+  console.log(
+    chalk.gray(
+      `   ${formatRelativeTime(operation.timestamp)} (${operation.timestamp.toLocaleString()})${operation.sessionId ? ` • ${operation.sessionId}` : ""}`
+    )
+  )
+}
+
+function reportBatch(result: UndoBatchResult): void {
+  if (result.undone.length === 0 && result.failed.length === 0) {
+    console.log(chalk.gray("Nothing to undo"))
+    return
+  }
+
+  console.log(chalk.green(`✅ Undone ${result.undone.length} operations`))
+  if (result.error) {
+    console.error(chalk.red(`❌ ${result.error}`))
+  }
+  if (result.failed.length > 0) {
+    console.error(
+      chalk.red(`❌ Failed to undo ${result.failed.length} operations:`)
+    )
+    result.failed.forEach((id) => console.error(chalk.red(`   ${id}`)))
+    process.exit(1)
+  }
+}
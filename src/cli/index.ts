@@ -2,12 +2,44 @@
 
 import { Command } from "commander"
 import chalk from "chalk"
+import { PROJECT_CONFIG_FILE } from "../utils/config"
 import { scanCommand } from "./commands/scan"
 import { interactiveCommand } from "./commands/interactive"
+import { cleanCommand } from "./commands/clean"
+import { applyCommand } from "./commands/apply"
 import { reportCommand } from "./commands/report"
+import {
+  cacheStatsCommand,
+  cachePruneCommand,
+  cacheClearCommand
+} from "./commands/cache"
+import {
+  configListCommand,
+  configGetCommand,
+  configSetCommand,
+  configResetCommand
+} from "./commands/config"
+import {
+  undoListCommand,
+  undoSessionsCommand,
+  undoOperationCommand,
+  undoLastCommand,
+  undoSessionCommand,
+  undoClearCommand,
+  gcCommand
+} from "./commands/undo"
+import {
+  quarantineListCommand,
+  quarantineRestoreCommand,
+  quarantinePurgeCommand
+} from "./commands/quarantine"
 
 const program = new Command()
 
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
 program
   .name("duplicates-finder")
   .description(
@@ -18,26 +50,290 @@ program
 program
   .command("scan")
   .description("Scan directory for duplicate files")
-  .argument("[directory]", "Directory to scan", ".")
+  .argument("[directories...]", "Directories to scan", ["."])
+  .option(
+    "-r, --reference <directory>",
+    "Read-only reference root, only duplicates outside it are reported (repeatable)",
+    collect,
+    []
+  )
   .option("-a, --all", "Include hidden files")
   .option("-d, --max-depth <depth>", "Maximum depth to scan", parseInt)
-  .option("-o, --output <file>", "Output file for results")
+  .option("-o, --output <file>", "Save scan results as JSON")
+  .option("--no-cache", "Ignore and don't update the hash cache")
+  .option(
+    "-j, --concurrency <n>",
+    "Number of files hashed in parallel",
+    parseInt
+  )
+  .option("--worker-threads", "Hash files on worker threads")
+  .option(
+    "--max-file-size <bytes>",
+    "Skip hashing files above this size",
+    parseInt
+  )
+  .option("--similar-images", "Also find resized or re-encoded images")
+  .option("--similar-text", "Also find near-identical text files")
+  .option("--similar-media", "Also find re-encoded songs and videos")
+  .option("--similar-folders", "Also find partly copied folders")
+  .option(
+    "--no-collapse",
+    "List groups nested in duplicate folders on their own"
+  )
+  .option("--archives", "Also compare files inside zip and tar archives")
   .action(scanCommand)
 
 program
   .command("interactive")
   .alias("i")
   .description("Launch interactive duplicate management interface")
-  .argument("[directory]", "Directory to scan", ".")
+  .argument("[directories...]", "Directories to scan", ["."])
+  .option(
+    "-r, --reference <directory>",
+    "Read-only reference root, never changed (repeatable)",
+    collect,
+    []
+  )
+  .option("--dry-run", "Preview actions without changing any files")
+  .option("-i, --input <file>", "Load saved scan results instead of scanning")
+  .option("--no-cache", "Ignore and don't update the hash cache")
+  .option(
+    "-j, --concurrency <n>",
+    "Number of files hashed in parallel",
+    parseInt
+  )
+  .option("--worker-threads", "Hash files on worker threads")
+  .option(
+    "--max-file-size <bytes>",
+    "Skip hashing files above this size",
+    parseInt
+  )
+  .option("--similar-images", "Also find resized or re-encoded images")
+  .option("--similar-text", "Also find near-identical text files")
+  .option("--similar-media", "Also find re-encoded songs and videos")
+  .option("--similar-folders", "Also find partly copied folders")
+  .option(
+    "--no-collapse",
+    "List groups nested in duplicate folders on their own"
+  )
+  .option("--archives", "Also compare files inside zip and tar archives")
+  .option("--no-undo", "Don't record undo history or backups")
+  .option("--no-confirm", "Skip the extra confirmation before applying")
+  .option(
+    "-q, --quarantine <directory>",
+    "Folder that quarantined duplicates are moved into"
+  )
+  .option(
+    "-k, --keep <strategies>",
+    "Preselect keepers in every group, e.g. oldest or preferred-prefix,newest"
+  )
   .action(interactiveCommand)
 
+program
+  .command("clean")
+  .description("Remove duplicate files without prompting, for scripts and cron")
+  .argument("[directories...]", "Directories to clean", ["."])
+  .option(
+    "-r, --reference <directory>",
+    "Read-only reference root, copies elsewhere are removed (repeatable)",
+    collect,
+    []
+  )
+  .option(
+    "-k, --keep <strategies>",
+    "Keep strategy for every group (default: defaultActions.keepStrategy or oldest)"
+  )
+  .option(
+    "--action <action>",
+    "delete, trash, move, hardlink, symlink or reflink (default: defaultDestructiveAction)"
+  )
+  .option(
+    "-q, --quarantine <directory>",
+    "Folder that --action move puts duplicates into"
+  )
+  .option("--dry-run", "Show what would be done without changing any files")
+  .option("-y, --yes", "Apply without asking for confirmation")
+  .option(
+    "--max-delete <n>",
+    "Refuse to run when more than this many files would change",
+    (value) => parseInt(value, 10)
+  )
+  .option("-a, --all", "Include hidden files")
+  .option("-d, --max-depth <depth>", "Maximum depth to scan", parseInt)
+  .option("--no-cache", "Ignore and don't update the hash cache")
+  .option(
+    "-j, --concurrency <n>",
+    "Number of files hashed in parallel",
+    parseInt
+  )
+  .option(
+    "--max-file-size <bytes>",
+    "Skip hashing files above this size",
+    parseInt
+  )
+  .option("--no-undo", "Don't record undo history or backups")
+  .action(cleanCommand)
+
+program
+  .command("apply")
+  .description("Apply an action plan saved from interactive mode")
+  .argument("<plan>", "Plan file")
+  .option("--dry-run", "Check the plan without changing any files")
+  .option("-y, --yes", "Apply without asking for confirmation")
+  .option("--strict", "Refuse the whole plan if any file changed")
+  .option("--no-undo", "Don't record undo history or backups")
+  .action(applyCommand)
+
 program
   .command("report")
   .description("Generate markdown report from scan results")
   .option("-i, --input <file>", "Input scan results file")
-  .option("-o, --output <file>", "Output report file", "duplicate-report.md")
+  .option(
+    "-o, --output <file>",
+    "Output report file (default: reportOutputPath from config)"
+  )
   .action(reportCommand)
 
+const cache = program
+  .command("cache")
+  .description("Inspect and maintain the on-disk hash cache")
+
+cache
+  .command("stats")
+  .description("Show hash cache statistics")
+  .action(cacheStatsCommand)
+
+cache
+  .command("prune")
+  .description("Remove entries for files that changed or no longer exist")
+  .option(
+    "--older-than <days>",
+    "Also remove entries unused for this many days",
+    parseInt
+  )
+  .action(cachePruneCommand)
+
+cache
+  .command("clear")
+  .description("Delete the hash cache")
+  .action(cacheClearCommand)
+
+const config = program
+  .command("config")
+  .description("Manage user and project configuration")
+
+config
+  .command("list")
+  .description("Show the effective configuration")
+  .action(configListCommand)
+
+config
+  .command("get")
+  .description("Show a single configuration value")
+  .argument("<key>", "Configuration key")
+  .action(configGetCommand)
+
+config
+  .command("set")
+  .description("Set a configuration value")
+  .argument("<key>", "Configuration key")
+  .argument("<value>", "New value (lists may be comma-separated or JSON)")
+  .option("-p, --project", `Write to ./${PROJECT_CONFIG_FILE} instead`)
+  .action(configSetCommand)
+
+config
+  .command("reset")
+  .description("Remove all configured values")
+  .option("-p, --project", `Reset ./${PROJECT_CONFIG_FILE} instead`)
+  .action(configResetCommand)
+
+const undo = program
+  .command("undo")
+  .description("Review and revert applied actions")
+
+undo
+  .command("list")
+  .description("Show recent operations")
+  .option(
+    "-n, --limit <count>",
+    "Number of operations to show",
+    (value) => parseInt(value, 10),
+    20
+  )
+  .action(undoListCommand)
+
+undo
+  .command("sessions")
+  .description("Show recorded apply sessions")
+  .action(undoSessionsCommand)
+
+undo
+  .command("op")
+  .description("Undo a single operation")
+  .argument("<id>", "Operation id")
+  .action(undoOperationCommand)
+
+undo
+  .command("last")
+  .description("Undo the most recent operations")
+  .argument(
+    "[count]",
+    "Number of operations to undo",
+    (value) => parseInt(value, 10),
+    1
+  )
+  .action(undoLastCommand)
+
+undo
+  .command("session")
+  .description("Undo every operation from one apply session")
+  .argument("<id>", "Session id")
+  .action(undoSessionCommand)
+
+undo
+  .command("clear")
+  .description("Clear the undo history and delete backups")
+  .option("-y, --yes", "Don't ask for confirmation")
+  .action(undoClearCommand)
+
+program
+  .command("gc")
+  .description("Remove undo backups outside the retention policy")
+  .option(
+    "--max-age <days>",
+    "Expire backups older than this (default: backupRetentionDays)",
+    parseInt
+  )
+  .option(
+    "--max-size <bytes>",
+    "Keep backups under this total size (default: backupMaxSize)",
+    parseInt
+  )
+  .action(gcCommand)
+
+const quarantine = program
+  .command("quarantine")
+  .description("List, restore or purge quarantined duplicates")
+
+quarantine
+  .command("list")
+  .description("Show what is in the quarantine")
+  .argument("[directory]", "Quarantine folder (default: quarantineDirectory)")
+  .action(quarantineListCommand)
+
+quarantine
+  .command("restore")
+  .description("Move every quarantined file back to where it came from")
+  .argument("[directory]", "Quarantine folder (default: quarantineDirectory)")
+  .action(quarantineRestoreCommand)
+
+quarantine
+  .command("purge")
+  .description("Permanently delete everything in the quarantine")
+  .argument("[directory]", "Quarantine folder (default: quarantineDirectory)")
+  .option("-y, --yes", "Don't ask for confirmation")
+  .action(quarantinePurgeCommand)
+
 program.parse()
 
 // Show help if no command provided
@@ -0,0 +1,57 @@
+// Burkhard-Keller tree: finds every item within a distance of a query without
+// comparing against all of them. The distance must be a metric with integer
+// values, such as Hamming or edit distance.
+interface BKNode<T> {
+  item: T
+  children: Map<number, BKNode<T>>
+}
+
+export class BKTree<T> {
+  private root?: BKNode<T>
+  private distance: (a: T, b: T) => number
+
+  constructor(distance: (a: T, b: T) => number) {
+    this.distance = distance
+  }
+
+  add(item: T): void {
+    if (!this.root) {
+      this.root = { item, children: new Map() }
+      return
+    }
+
+    let node = this.root
+    while (true) {
+      const distance = this.distance(item, node.item)
+      const child = node.children.get(distance)
+      if (!child) {
+        node.children.set(distance, { item, children: new Map() })
+        return
+      }
+      node = child
+    }
+  }
+
+  // Items within maxDistance of the query, with their distances
+  search(query: T, maxDistance: number): { item: T; distance: number }[] {
+    const matches: { item: T; distance: number }[] = []
+    const pending = this.root ? [this.root] : []
+
+    while (pending.length > 0) {
+      const node = pending.pop()!
+      const distance = this.distance(query, node.item)
+      if (distance <= maxDistance) {
+        matches.push({ item: node.item, distance })
+      }
+
+      // The triangle inequality rules out every other subtree
+      for (const [childDistance, child] of node.children) {
+        if (Math.abs(childDistance - distance) <= maxDistance) {
+          pending.push(child)
+        }
+      }
+    }
+
+    return matches
+  }
+}
@@ -1,20 +1,55 @@
+import { dirname, extname, join, relative, sep } from "path"
 import { v4 as uuidv4 } from "uuid"
+import { DEFAULT_CONFIG } from "../types/config"
 import { FileMetadata } from "../types/file"
 import {
+  DetectorOptions,
   DuplicateGroup,
   DuplicateType,
   DuplicateStats
 } from "../types/duplicate"
-import { FolderComparer } from "./folder-comparer"
+import { BKTree } from "./bk-tree"
+import { FolderComparer, FolderStructure } from "./folder-comparer"
+import {
+  DEFAULT_IMAGE_SIMILARITY_THRESHOLD,
+  hammingDistance,
+  IMAGE_HASH_BITS
+} from "../utils/image-hash"
+import {
+  DEFAULT_MEDIA_DURATION_TOLERANCE,
+  MEDIA_FINGERPRINT_BITS,
+  MEDIA_FINGERPRINT_THRESHOLD
+} from "../utils/media-metadata"
+import {
+  DEFAULT_TEXT_SIMILARITY_THRESHOLD,
+  estimateSimilarity,
+  minHashBands
+} from "../utils/text-similarity"
+import {
+  describeNameMatch,
+  levenshteinDistance,
+  normalizeName
+} from "../utils/name-matching"
+import { formatPlaytime, formatSimilarity } from "../utils/file-utils"
 import { logger } from "../utils/logger"
 
 export class DuplicateDetector {
   private files: FileMetadata[]
   private directories: FileMetadata[]
+  private options: DetectorOptions
+  private directoriesByPath: Map<string, FileMetadata>
+  private folderComparer = new FolderComparer()
+  private folderSizes = new Map<string, number>() // scanned bytes below a folder
 
-  constructor(files: FileMetadata[], directories: FileMetadata[] = []) {
+  constructor(
+    files: FileMetadata[],
+    directories: FileMetadata[] = [],
+    options: DetectorOptions = {}
+  ) {
     this.files = files
     this.directories = directories
+    this.directoriesByPath = new Map(directories.map((dir) => [dir.path, dir]))
+    this.options = options
   }
 
   async detectDuplicates(): Promise<DuplicateGroup[]> {
@@ -30,34 +65,155 @@ export class DuplicateDetector {
     const contentBasedGroups = this.findContentBasedDuplicates()
     duplicateGroups.push(...contentBasedGroups)
 
-    // Find folder-based duplicates
-    const folderBasedGroups = await this.findFolderBasedDuplicates()
+    // Find folder-based duplicates, exact and partial
+    const folderStructures =
+      this.options.detectFolders === false ? [] : this.buildFolderStructures()
+    const folderBasedGroups = this.findFolderBasedDuplicates(folderStructures)
     duplicateGroups.push(...folderBasedGroups)
+    const similarFolderGroups = this.findSimilarFolders(folderStructures)
+    duplicateGroups.push(...similarFolderGroups)
+
+    // Find visually similar images
+    const similarImageGroups = this.findSimilarImages()
+    duplicateGroups.push(...similarImageGroups)
+
+    // Find near-identical text files
+    const similarTextGroups = this.findSimilarTexts()
+    duplicateGroups.push(...similarTextGroups)
+
+    // Find re-encoded songs and clips
+    const similarMediaGroups = this.findSimilarMedia()
+    duplicateGroups.push(...similarMediaGroups)
+
+    const reportedGroups = this.collapseNestedGroups(
+      this.applyReferenceRoots(duplicateGroups)
+    )
 
     logger.info("Duplicate detection completed", {
-      totalGroups: duplicateGroups.length,
+      totalGroups: reportedGroups.length,
       nameBasedGroups: nameBasedGroups.length,
       contentBasedGroups: contentBasedGroups.length,
-      folderBasedGroups: folderBasedGroups.length
+      folderBasedGroups: folderBasedGroups.length,
+      similarFolderGroups: similarFolderGroups.length,
+      similarImageGroups: similarImageGroups.length,
+      similarTextGroups: similarTextGroups.length,
+      similarMediaGroups: similarMediaGroups.length
     })
 
-    return duplicateGroups
+    return reportedGroups
+  }
+
+  // Groups made up only of reference copies aren't reported. Where a
+  // reference copy exists every writable copy can go; archive members can't
+  // be acted on, so one loose copy always stays
+  private applyReferenceRoots(
+    duplicateGroups: DuplicateGroup[]
+  ): DuplicateGroup[] {
+    return duplicateGroups.filter((group) => {
+      const writableFiles = group.files.filter(
+        (file) => !file.readOnly && !file.archive
+      )
+      if (writableFiles.length === 0) {
+        // The same file kept in several backups is reported, read-only
+        if (!group.files.some((file) => file.archive)) {
+          return false
+        }
+        group.potentialSavings = 0
+        return true
+      }
+
+      if (writableFiles.length < group.files.length) {
+        const writableSize = writableFiles.reduce(
+          (sum, file) => sum + file.size,
+          0
+        )
+        group.potentialSavings = group.files.some((file) => file.readOnly)
+          ? writableSize
+          : writableSize - Math.max(...writableFiles.map((file) => file.size))
+      }
+      return true
+    })
+  }
+
+  // When a/ and b/ are copies, a/x vs b/x and a/x/file vs b/x/file say
+  // nothing new. Only the outermost folder group is kept, and groups whose
+  // entries each sit in a different folder of it are folded into it.
+  private collapseNestedGroups(
+    duplicateGroups: DuplicateGroup[]
+  ): DuplicateGroup[] {
+    if (this.options.collapseNestedGroups === false) {
+      return duplicateGroups
+    }
+
+    // Only exact folder copies hide what's inside them; a partly copied
+    // folder can still hold duplicates worth seeing on their own
+    const isFolderGroup = (group: DuplicateGroup) =>
+      group.type === DuplicateType.FOLDER_BASED
+    const shortestPath = (group: DuplicateGroup) =>
+      Math.min(...group.files.map((file) => file.path.length))
+
+    // Outermost first, so each group is folded into the highest one
+    const folderGroups = duplicateGroups
+      .filter(isFolderGroup)
+      .sort((a, b) => shortestPath(a) - shortestPath(b))
+    const outermost: DuplicateGroup[] = []
+    const covered = new Set<DuplicateGroup>()
+
+    const fold = (group: DuplicateGroup): boolean => {
+      const parent = outermost.find((candidate) =>
+        coversGroup(candidate, group)
+      )
+      if (!parent) {
+        return false
+      }
+      parent.coveredGroups = (parent.coveredGroups || 0) + 1
+      covered.add(group)
+      return true
+    }
+
+    for (const group of folderGroups) {
+      if (!fold(group)) {
+        outermost.push(group)
+      }
+    }
+    if (outermost.length > 0) {
+      for (const group of duplicateGroups) {
+        if (!isFolderGroup(group)) {
+          fold(group)
+        }
+      }
+    }
+
+    logger.info("Nested groups collapsed", {
+      folderGroups: outermost.length,
+      collapsed: covered.size
+    })
+    return duplicateGroups.filter((group) => !covered.has(group))
   }
 
   private findNameBasedDuplicates(): DuplicateGroup[] {
+    const options = {
+      ...DEFAULT_CONFIG.nameMatching,
+      ...this.options.nameMatching
+    }
     const nameGroups = new Map<string, FileMetadata[]>()
 
-    // Group files by name
+    // Group files by normalized name
     for (const file of this.files) {
-      if (!nameGroups.has(file.name)) {
-        nameGroups.set(file.name, [])
+      const { key } = normalizeName(file.name, options)
+      if (!nameGroups.has(key)) {
+        nameGroups.set(key, [])
       }
-      nameGroups.get(file.name)!.push(file)
+      nameGroups.get(key)!.push(file)
     }
 
     // Filter groups with more than one file
     const duplicateGroups: DuplicateGroup[] = []
-    for (const [name, files] of nameGroups) {
+    for (const { keys, distance } of this.clusterNames(
+      nameGroups,
+      options.maxEditDistance
+    )) {
+      const files = keys.flatMap((key) => nameGroups.get(key)!)
       if (files.length > 1) {
         const totalSize = files.reduce((sum, file) => sum + file.size, 0)
         const potentialSavings =
@@ -69,7 +225,12 @@ export class DuplicateDetector {
           files,
           totalSize,
           potentialSavings,
-          actions: new Map()
+          actions: new Map(),
+          matchReason: describeNameMatch(
+            files.map((file) => file.name),
+            options,
+            distance
+          )
         })
       }
     }
@@ -77,6 +238,55 @@ export class DuplicateDetector {
     return duplicateGroups
   }
 
+  // Without an edit distance every normalized name stands alone; with one,
+  // the most common names absorb the ones within reach
+  private clusterNames(
+    nameGroups: Map<string, FileMetadata[]>,
+    maxEditDistance: number
+  ): { keys: string[]; distance: number }[] {
+    const keys = Array.from(nameGroups.keys())
+    if (maxEditDistance <= 0) {
+      return keys.map((key) => ({ keys: [key], distance: 0 }))
+    }
+
+    keys.sort(
+      (a, b) =>
+        nameGroups.get(b)!.length - nameGroups.get(a)!.length ||
+        a.localeCompare(b)
+    )
+    const tree = new BKTree<string>(levenshteinDistance)
+    keys.forEach((key) => tree.add(key))
+
+    const claimed = new Set<string>()
+    const clusters: { keys: string[]; distance: number }[] = []
+
+    for (const seed of keys) {
+      if (claimed.has(seed)) {
+        continue
+      }
+
+      // A few edits turn any short name into another, so short names need
+      // to be closer: at most one edit per four characters before the
+      // extension
+      const matches = tree
+        .search(seed, maxEditDistance)
+        .filter(
+          (match) =>
+            !claimed.has(match.item) &&
+            match.distance <=
+              Math.floor(Math.min(stemLength(seed), stemLength(match.item)) / 4)
+        )
+      matches.forEach((match) => claimed.add(match.item))
+
+      clusters.push({
+        keys: [seed, ...matches.map((m) => m.item).filter((k) => k !== seed)],
+        distance: Math.max(0, ...matches.map((match) => match.distance))
+      })
+    }
+
+    return clusters
+  }
+
   private findContentBasedDuplicates(): DuplicateGroup[] {
     const hashGroups = new Map<string, FileMetadata[]>()
 
@@ -111,59 +321,288 @@ export class DuplicateDetector {
     return duplicateGroups
   }
 
-  private async findFolderBasedDuplicates(): Promise<DuplicateGroup[]> {
-    if (this.directories.length === 0) {
+  // Each group grows around its largest image, usually the original, and
+  // takes every unclaimed image close enough to it
+  private findSimilarImages(): DuplicateGroup[] {
+    const images = this.files
+      .filter((file) => file.perceptualHash)
+      .sort((a, b) => b.size - a.size || a.path.localeCompare(b.path))
+    if (images.length < 2) {
       return []
     }
 
-    const folderComparer = new FolderComparer()
-    const folderStructures = []
+    const threshold =
+      this.options.imageSimilarityThreshold ??
+      DEFAULT_IMAGE_SIMILARITY_THRESHOLD
+    const tree = new BKTree<FileMetadata>((a, b) =>
+      hammingDistance(a.perceptualHash!, b.perceptualHash!)
+    )
+    images.forEach((image) => tree.add(image))
+    // Ties are broken by the largest-first order
+    const order = new Map(images.map((image, index) => [image, index]))
+
+    const claimed = new Set<FileMetadata>()
+    const duplicateGroups: DuplicateGroup[] = []
+
+    for (const seed of images) {
+      if (claimed.has(seed)) {
+        continue
+      }
 
-    // Build structure for each directory
-    for (const dir of this.directories) {
-      try {
-        const structure = await folderComparer.buildFolderStructure(
-          dir.path,
-          dir.path
+      const matches = tree
+        .search(seed, threshold)
+        .filter((match) => !claimed.has(match.item))
+        .sort(
+          (a, b) =>
+            a.distance - b.distance || order.get(a.item)! - order.get(b.item)!
         )
-        folderStructures.push(structure)
-      } catch (error) {
-        logger.warn("Failed to build folder structure", {
-          path: dir.path,
-          error
-        })
+      const files = matches.map((match) => match.item)
+
+      // Byte-identical copies are already reported as content duplicates
+      if (
+        files.length < 2 ||
+        files.every((f) => f.hash && f.hash === seed.hash)
+      ) {
+        continue
+      }
+      files.forEach((file) => claimed.add(file))
+
+      const totalSize = files.reduce((sum, file) => sum + file.size, 0)
+      const furthest = Math.max(...matches.map((match) => match.distance))
+
+      duplicateGroups.push({
+        id: uuidv4(),
+        type: DuplicateType.SIMILAR_IMAGE,
+        files,
+        totalSize,
+        // Any file may end up kept, not only the seed
+        potentialSavings: totalSize - Math.max(...files.map((f) => f.size)),
+        actions: new Map(),
+        similarity: 1 - furthest / IMAGE_HASH_BITS
+      })
+    }
+
+    return duplicateGroups
+  }
+
+  // Only files sharing a MinHash band are compared, then groups grow around
+  // the largest file the same way similar images do
+  private findSimilarTexts(): DuplicateGroup[] {
+    const texts = this.files
+      .filter((file) => file.minHash)
+      .sort((a, b) => b.size - a.size || a.path.localeCompare(b.path))
+    if (texts.length < 2) {
+      return []
+    }
+
+    const threshold =
+      this.options.textSimilarityThreshold ?? DEFAULT_TEXT_SIMILARITY_THRESHOLD
+    const buckets = new Map<string, FileMetadata[]>()
+    for (const file of texts) {
+      for (const band of minHashBands(file.minHash!)) {
+        if (!buckets.has(band)) {
+          buckets.set(band, [])
+        }
+        buckets.get(band)!.push(file)
+      }
+    }
+
+    const claimed = new Set<FileMetadata>()
+    const duplicateGroups: DuplicateGroup[] = []
+
+    for (const seed of texts) {
+      if (claimed.has(seed)) {
+        continue
+      }
+
+      const similarities = new Map<FileMetadata, number>([[seed, 1]])
+      for (const band of minHashBands(seed.minHash!)) {
+        for (const candidate of buckets.get(band)!) {
+          if (claimed.has(candidate) || similarities.has(candidate)) {
+            continue
+          }
+          const similarity = estimateSimilarity(
+            seed.minHash!,
+            candidate.minHash!
+          )
+          if (similarity >= threshold) {
+            similarities.set(candidate, similarity)
+          }
+        }
+      }
+
+      const files = Array.from(similarities.keys())
+      if (
+        files.length < 2 ||
+        files.every((f) => f.hash && f.hash === seed.hash)
+      ) {
+        continue
+      }
+      files.forEach((file) => claimed.add(file))
+
+      const totalSize = files.reduce((sum, file) => sum + file.size, 0)
+      duplicateGroups.push({
+        id: uuidv4(),
+        type: DuplicateType.SIMILAR_TEXT,
+        files,
+        totalSize,
+        potentialSavings: totalSize - seed.size,
+        actions: new Map(),
+        similarity: Math.min(...similarities.values())
+      })
+    }
+
+    return duplicateGroups
+  }
+
+  // Recordings match on artist and title plus a similar length; untagged ones
+  // can still match on their audio fingerprint
+  private findSimilarMedia(): DuplicateGroup[] {
+    const recordings = this.files
+      .filter((file) => file.media?.durationMs)
+      .sort((a, b) => b.size - a.size || a.path.localeCompare(b.path))
+    const toleranceMs =
+      (this.options.mediaDurationTolerance ??
+        DEFAULT_MEDIA_DURATION_TOLERANCE) * 1000
+    const claimed = new Set<FileMetadata>()
+    const duplicateGroups: DuplicateGroup[] = []
+
+    const addGroup = (
+      files: FileMetadata[],
+      matchReason: string,
+      similarity?: number
+    ) => {
+      // Byte-identical copies are already reported as content duplicates
+      if (
+        files.length < 2 ||
+        files.every((f) => f.hash && f.hash === files[0].hash)
+      ) {
+        return
+      }
+      files.forEach((file) => claimed.add(file))
+
+      const totalSize = files.reduce((sum, file) => sum + file.size, 0)
+      duplicateGroups.push({
+        id: uuidv4(),
+        type: DuplicateType.SIMILAR_MEDIA,
+        files,
+        totalSize,
+        potentialSavings: totalSize - Math.max(...files.map((f) => f.size)),
+        actions: new Map(),
+        matchReason,
+        ...(similarity !== undefined && { similarity })
+      })
+    }
+
+    const byTags = new Map<string, FileMetadata[]>()
+    for (const file of recordings) {
+      const { artist, title } = file.media!
+      if (artist && title) {
+        const key = `${normalizeTag(artist)}\0${normalizeTag(title)}`
+        if (!byTags.has(key)) {
+          byTags.set(key, [])
+        }
+        byTags.get(key)!.push(file)
+      }
+    }
+
+    for (const files of byTags.values()) {
+      for (const cluster of clusterByDuration(files, toleranceMs)) {
+        const { artist, title, durationMs } = cluster[0].media!
+        addGroup(
+          cluster,
+          `Same artist and title ("${artist} - ${title}"), ${formatPlaytime(durationMs!)} long`
+        )
+      }
+    }
+
+    const fingerprinted = recordings.filter(
+      (file) => file.media!.fingerprint && !claimed.has(file)
+    )
+    for (const seed of fingerprinted) {
+      if (claimed.has(seed)) {
+        continue
+      }
+
+      let furthest = 0
+      const files = fingerprinted.filter((file) => {
+        if (claimed.has(file)) return false
+        const lengthDifference = Math.abs(
+          file.media!.durationMs! - seed.media!.durationMs!
+        )
+        const distance = hammingDistance(
+          file.media!.fingerprint!,
+          seed.media!.fingerprint!
+        )
+        if (
+          lengthDifference > toleranceMs ||
+          distance > MEDIA_FINGERPRINT_THRESHOLD
+        ) {
+          return false
+        }
+        furthest = Math.max(furthest, distance)
+        return true
+      })
+
+      addGroup(
+        files,
+        `Matching audio fingerprint, ${formatPlaytime(seed.media!.durationMs!)} long`,
+        1 - furthest / MEDIA_FINGERPRINT_BITS
+      )
+    }
+
+    return duplicateGroups
+  }
+
+  // Folders are laid out from the scan's own hashes. Files of identical
+  // folders share their size, so the scan has hashed them; a file it left
+  // unhashed has no copy anywhere and keeps its folder unique.
+  private buildFolderStructures(): FolderStructure[] {
+    const looseFiles = this.files.filter((file) => !file.archive)
+
+    // Sizes add up to every scanned folder above the file
+    for (const file of looseFiles) {
+      let folder = dirname(file.path)
+      while (this.directoriesByPath.has(folder)) {
+        this.folderSizes.set(
+          folder,
+          (this.folderSizes.get(folder) || 0) + file.size
+        )
+        folder = dirname(folder)
       }
     }
 
+    const structures = this.folderComparer.buildFolderStructures(
+      this.directories,
+      looseFiles,
+      (file) =>
+        file.hash || (file.size === 0 ? "empty" : `unhashed:${file.path}`)
+    )
+    // Folders without scanned files, like those at maxDepth, can't be compared
+    return structures.filter((structure) =>
+      this.folderSizes.has(structure.path)
+    )
+  }
+
+  private findFolderBasedDuplicates(
+    folderStructures: FolderStructure[]
+  ): DuplicateGroup[] {
     // Find duplicate folder groups
     const duplicateFolderGroups =
-      folderComparer.findDuplicateFolders(folderStructures)
+      this.folderComparer.findDuplicateFolders(folderStructures)
     const duplicateGroups: DuplicateGroup[] = []
 
     for (const folderGroup of duplicateFolderGroups) {
       // Convert folder structures to FileMetadata for consistency
       const files: FileMetadata[] = []
+      const folders: FolderStructure[] = []
       let totalSize = 0
 
       for (const folder of folderGroup) {
-        try {
-          const size = await folderComparer.getFolderSize(folder.path)
-          const metadata: FileMetadata = {
-            path: folder.path,
-            name: folder.name,
-            size,
-            modified: new Date(), // We'd need to get this properly
-            created: new Date(), // We'd need to get this properly
-            isDirectory: true
-          }
-          files.push(metadata)
-          totalSize += size
-        } catch (error) {
-          logger.warn("Failed to get folder metadata", {
-            path: folder.path,
-            error
-          })
-        }
+        const metadata = this.getFolderMetadata(folder)
+        files.push(metadata)
+        folders.push(folder)
+        totalSize += metadata.size
       }
 
       if (files.length > 1) {
@@ -175,7 +614,8 @@ export class DuplicateDetector {
           files,
           totalSize,
           potentialSavings,
-          actions: new Map()
+          actions: new Map(),
+          folderDiff: this.folderComparer.diffFolders(folders)
         })
       }
     }
@@ -183,6 +623,74 @@ export class DuplicateDetector {
     return duplicateGroups
   }
 
+  // Stale copies of a project: folders whose files mostly have a copy in
+  // another folder, even with files added, removed or moved around
+  private findSimilarFolders(
+    folderStructures: FolderStructure[]
+  ): DuplicateGroup[] {
+    const { folderSimilarityThreshold } = this.options
+    if (folderSimilarityThreshold === undefined) {
+      return []
+    }
+
+    const sizes = new Map(this.files.map((file) => [file.path, file.size]))
+    const duplicateGroups: DuplicateGroup[] = []
+
+    for (const overlap of this.folderComparer.findOverlappingFolders(
+      folderStructures,
+      folderSimilarityThreshold
+    )) {
+      const container = this.getFolderMetadata(overlap.container)
+      const contained = this.getFolderMetadata(overlap.contained)
+
+      // Only the copied part of the contained folder is saved by removing it
+      const potentialSavings = overlap.sharedFiles.reduce(
+        (sum, path) =>
+          sum + (sizes.get(join(overlap.contained.path, path)) || 0),
+        0
+      )
+
+      duplicateGroups.push({
+        id: uuidv4(),
+        type: DuplicateType.SIMILAR_FOLDER,
+        files: [container, contained],
+        totalSize: container.size + contained.size,
+        potentialSavings,
+        actions: new Map(),
+        similarity: overlap.containment,
+        matchReason:
+          `"${folderLabel(contained)}" is ${formatSimilarity(overlap.containment)} ` +
+          `contained in "${folderLabel(container)}" ` +
+          `(${formatSimilarity(overlap.jaccard)} of all their files are shared)`,
+        uniqueFiles: {
+          [container.path]: overlap.containerOnly,
+          [contained.path]: overlap.containedOnly
+        },
+        folderDiff: this.folderComparer.diffFolders([
+          overlap.container,
+          overlap.contained
+        ])
+      })
+    }
+
+    return duplicateGroups
+  }
+
+  private getFolderMetadata(folder: FolderStructure): FileMetadata {
+    const size = this.folderSizes.get(folder.path) || 0
+    const scanned = this.directoriesByPath.get(folder.path)
+    return {
+      path: folder.path,
+      name: folder.name,
+      size,
+      modified: scanned?.modified || new Date(),
+      created: scanned?.created || new Date(),
+      isDirectory: true,
+      root: scanned?.root,
+      readOnly: scanned?.readOnly
+    }
+  }
+
   static calculateStats(duplicateGroups: DuplicateGroup[]): DuplicateStats {
     const stats: DuplicateStats = {
       totalGroups: duplicateGroups.length,
@@ -192,7 +700,11 @@ export class DuplicateDetector {
       groupsByType: {
         [DuplicateType.NAME_BASED]: 0,
         [DuplicateType.CONTENT_BASED]: 0,
-        [DuplicateType.FOLDER_BASED]: 0
+        [DuplicateType.FOLDER_BASED]: 0,
+        [DuplicateType.SIMILAR_IMAGE]: 0,
+        [DuplicateType.SIMILAR_TEXT]: 0,
+        [DuplicateType.SIMILAR_MEDIA]: 0,
+        [DuplicateType.SIMILAR_FOLDER]: 0
       }
     }
 
@@ -206,3 +718,62 @@ export class DuplicateDetector {
     return stats
   }
 }
+
+// True when every entry of `group` lies inside a different folder of the
+// folder group `parent`, like a/x/f and b/x/f under a/ and b/
+function coversGroup(parent: DuplicateGroup, group: DuplicateGroup): boolean {
+  const containers = new Set<string>()
+  for (const file of group.files) {
+    const container = parent.files.find(
+      (folder) =>
+        file.path === folder.path || file.path.startsWith(folder.path + sep)
+    )
+    if (!container || containers.has(container.path)) {
+      return false
+    }
+    containers.add(container.path)
+  }
+
+  // The same folders in another order isn't a nested group
+  return group.files.some(
+    (file) => !parent.files.some((folder) => folder.path === file.path)
+  )
+}
+
+// Folders are named relative to their scan root, which is usually shorter
+function folderLabel(folder: FileMetadata): string {
+  return (folder.root && relative(folder.root, folder.path)) || folder.path
+}
+
+function normalizeTag(tag: string): string {
+  return tag.normalize("NFC").toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+// Splits files into runs whose lengths stay within the tolerance of the
+// run's shortest file
+function clusterByDuration(
+  files: FileMetadata[],
+  toleranceMs: number
+): FileMetadata[][] {
+  const sorted = [...files].sort(
+    (a, b) => a.media!.durationMs! - b.media!.durationMs!
+  )
+  const clusters: FileMetadata[][] = []
+
+  for (const file of sorted) {
+    const current = clusters[clusters.length - 1]
+    if (
+      current &&
+      file.media!.durationMs! - current[0].media!.durationMs! <= toleranceMs
+    ) {
+      current.push(file)
+    } else {
+      clusters.push([file])
+    }
+  }
+  return clusters
+}
+
+function stemLength(name: string): number {
+  return name.length - extname(name).length
+}
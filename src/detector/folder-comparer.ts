@@ -1,24 +1,89 @@
 import { promises as fs } from "fs"
-import { join, relative } from "path"
+import { basename, dirname, join, relative, sep } from "path"
 import { createHash } from "crypto"
+import { FolderDiffNode } from "../types/duplicate"
 import { FileMetadata } from "../types/file"
+import { calculateFileHash, getFileMetadata } from "../utils/file-utils"
+import { hashCache } from "../utils/hash-cache"
 import { logger } from "../utils/logger"
 
 export interface FolderStructure {
   path: string
   name: string
-  files: Map<string, string> // relative path -> hash
+  // File name -> content hash. Structures read from disk key files by their
+  // path relative to the folder they were read for, so only the name counts.
+  files: Map<string, string>
   subdirectories: Map<string, FolderStructure>
   structureHash: string
 }
 
+export interface FolderOverlap {
+  container: FolderStructure
+  contained: FolderStructure
+  containment: number // share of the contained folder's files the container has
+  jaccard: number // shared files over all distinct files of both
+  sharedFiles: string[] // paths in the contained folder with a copy in the other
+  containerOnly: string[]
+  containedOnly: string[]
+}
+
+// Folders with fewer files are contained in too many others to be interesting
+const MIN_OVERLAP_FILES = 2
+// Content shared by more folders than this (license files, empty
+// placeholders) doesn't suggest which folders to compare
+const MAX_FOLDERS_PER_HASH = 100
+
 export class FolderComparer {
+  // Lays the scanned files out as folders without reading anything from
+  // disk. `contentKey` names each file's content.
+  buildFolderStructures(
+    directories: FileMetadata[],
+    files: FileMetadata[],
+    contentKey: (file: FileMetadata) => string
+  ): FolderStructure[] {
+    const structures = new Map<string, FolderStructure>()
+    for (const directory of directories) {
+      structures.set(directory.path, {
+        path: directory.path,
+        name: basename(directory.path),
+        files: new Map(),
+        subdirectories: new Map(),
+        structureHash: ""
+      })
+    }
+
+    for (const file of files) {
+      structures.get(dirname(file.path))?.files.set(file.name, contentKey(file))
+    }
+    for (const structure of structures.values()) {
+      structures
+        .get(dirname(structure.path))
+        ?.subdirectories.set(structure.name, structure)
+    }
+
+    // Deepest first, so subdirectories are hashed before their parents
+    const byDepth = Array.from(structures.values()).sort(
+      (a, b) => b.path.split(sep).length - a.path.split(sep).length
+    )
+    for (const structure of byDepth) {
+      structure.structureHash = this.calculateStructureHash(
+        structure.files,
+        structure.subdirectories
+      )
+    }
+
+    return Array.from(structures.values())
+  }
+
+  // Reads and hashes a folder from disk, for checking it again after a scan.
+  // Backups are addressed by this hash, so its layout can't change.
   async buildFolderStructure(
     directoryPath: string,
     basePath: string
   ): Promise<FolderStructure> {
     const files = new Map<string, string>()
     const subdirectories = new Map<string, FolderStructure>()
+    await hashCache.load()
 
     try {
       const entries = await fs.readdir(directoryPath, { withFileTypes: true })
@@ -35,7 +100,7 @@ export class FolderComparer {
           subdirectories.set(entry.name, subStructure)
         } else if (entry.isFile()) {
           try {
-            const hash = await this.calculateFileHash(entryPath)
+            const hash = await this.hashFile(entryPath)
             files.set(relativePath, hash)
           } catch (error) {
             logger.warn("Failed to hash file", { path: entryPath, error })
@@ -49,6 +114,10 @@ export class FolderComparer {
     }
 
     const structureHash = this.calculateStructureHash(files, subdirectories)
+    // Saved once the whole folder has been read
+    if (directoryPath === basePath) {
+      await hashCache.save()
+    }
 
     return {
       path: directoryPath,
@@ -59,15 +128,17 @@ export class FolderComparer {
     }
   }
 
-  private async calculateFileHash(filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const hash = createHash("sha256")
-      const stream = require("fs").createReadStream(filePath)
+  // Unchanged files are served from the hash cache the scans fill
+  private async hashFile(filePath: string): Promise<string> {
+    const metadata = await getFileMetadata(filePath)
+    const cached = hashCache.get(metadata, "full")
+    if (cached) {
+      return cached
+    }
 
-      stream.on("data", (data: Buffer) => hash.update(data))
-      stream.on("end", () => resolve(hash.digest("hex")))
-      stream.on("error", reject)
-    })
+    const hash = await calculateFileHash(filePath)
+    hashCache.set(metadata, "full", hash)
+    return hash
   }
 
   private calculateStructureHash(
@@ -106,6 +177,181 @@ export class FolderComparer {
     return Array.from(hashGroups.values()).filter((group) => group.length > 1)
   }
 
+  // Pairs of folders where most files of one have a copy in the other,
+  // wherever they are inside it. Exact copies and nested folders are skipped.
+  findOverlappingFolders(
+    structures: FolderStructure[],
+    minContainment: number
+  ): FolderOverlap[] {
+    const contents = structures.map((structure) => this.listFiles(structure))
+
+    const foldersByHash = new Map<string, number[]>()
+    contents.forEach((files, index) => {
+      for (const hash of new Set(files.values())) {
+        if (hash === "error") continue
+        if (!foldersByHash.has(hash)) {
+          foldersByHash.set(hash, [])
+        }
+        foldersByHash.get(hash)!.push(index)
+      }
+    })
+
+    // Folders with an exact copy are already reported as folder duplicates
+    const copies = new Map<string, number>()
+    for (const structure of structures) {
+      copies.set(
+        structure.structureHash,
+        (copies.get(structure.structureHash) || 0) + 1
+      )
+    }
+
+    const candidates = new Set<number>()
+    for (const folders of foldersByHash.values()) {
+      if (folders.length > MAX_FOLDERS_PER_HASH) continue
+      for (let i = 0; i < folders.length; i++) {
+        for (let j = i + 1; j < folders.length; j++) {
+          candidates.add(folders[i] * structures.length + folders[j])
+        }
+      }
+    }
+
+    const overlaps: FolderOverlap[] = []
+    for (const candidate of candidates) {
+      let a = Math.floor(candidate / structures.length)
+      let b = candidate % structures.length
+      if (
+        structures[a].structureHash === structures[b].structureHash ||
+        isInside(structures[a].path, structures[b].path) ||
+        isInside(structures[b].path, structures[a].path)
+      ) {
+        continue
+      }
+
+      // The folder with fewer files is the one contained in the other
+      if (contents[a].size < contents[b].size) {
+        ;[a, b] = [b, a]
+      }
+      if (
+        contents[b].size < MIN_OVERLAP_FILES ||
+        copies.get(structures[b].structureHash)! > 1
+      ) {
+        continue
+      }
+
+      const container = matchFiles(contents[a], contents[b])
+      const contained = matchFiles(contents[b], contents[a])
+      const shared = contained.shared.length
+      const containment = shared / contents[b].size
+      if (containment < minContainment) continue
+
+      overlaps.push({
+        container: structures[a],
+        contained: structures[b],
+        containment,
+        jaccard: shared / (contents[a].size + contents[b].size - shared),
+        sharedFiles: contained.shared,
+        containerOnly: container.unique,
+        containedOnly: contained.unique
+      })
+    }
+
+    // A folder copied into a project is also contained in every folder
+    // above the copy, only its closest match is reported
+    const best = new Map<string, FolderOverlap>()
+    for (const overlap of overlaps) {
+      const current = best.get(overlap.contained.path)
+      if (
+        !current ||
+        overlap.containment > current.containment ||
+        (overlap.containment === current.containment &&
+          overlap.jaccard > current.jaccard)
+      ) {
+        best.set(overlap.contained.path, overlap)
+      }
+    }
+
+    return Array.from(best.values()).sort(
+      (x, y) =>
+        y.containment - x.containment ||
+        y.sharedFiles.length - x.sharedFiles.length
+    )
+  }
+
+  // Lays the folders over each other entry by entry, for the folder-diff view
+  diffFolders(structures: FolderStructure[]): FolderDiffNode {
+    return this.diffLevel("", structures)
+  }
+
+  private diffLevel(
+    name: string,
+    levels: (FolderStructure | undefined)[]
+  ): FolderDiffNode {
+    // Files go by name whatever their keys are relative to
+    const filesByName = levels.map(
+      (level) =>
+        new Map(
+          Array.from(level?.files || [], ([path, hash]) => [
+            basename(path),
+            hash
+          ])
+        )
+    )
+    const directoryNames = new Set(
+      levels.flatMap((level) => Array.from(level?.subdirectories.keys() || []))
+    )
+    const fileNames = new Set(filesByName.flatMap((files) => [...files.keys()]))
+
+    const children: FolderDiffNode[] = []
+    for (const directoryName of Array.from(directoryNames).sort()) {
+      children.push(
+        this.diffLevel(
+          directoryName,
+          levels.map((level) => level?.subdirectories.get(directoryName))
+        )
+      )
+    }
+    for (const fileName of Array.from(fileNames).sort()) {
+      const hashes = filesByName.map((files) => files.get(fileName))
+      const presentIn = hashes.map((hash) => hash !== undefined)
+      children.push({
+        name: fileName,
+        isDirectory: false,
+        status: presentIn.includes(false)
+          ? "missing"
+          : hashes.every((hash) => hash === hashes[0] && hash !== "error")
+            ? "identical"
+            : "differs",
+        presentIn
+      })
+    }
+
+    const presentIn = levels.map((level) => level !== undefined)
+    return {
+      name,
+      isDirectory: true,
+      status: presentIn.includes(false)
+        ? "missing"
+        : children.every((child) => child.status === "identical")
+          ? "identical"
+          : "differs",
+      presentIn,
+      children
+    }
+  }
+
+  // Every file below the folder, relative path -> content hash
+  private listFiles(structure: FolderStructure): Map<string, string> {
+    const files = new Map(
+      Array.from(structure.files, ([path, hash]) => [basename(path), hash])
+    )
+    for (const [name, subdirectory] of structure.subdirectories) {
+      for (const [path, hash] of this.listFiles(subdirectory)) {
+        files.set(join(name, path), hash)
+      }
+    }
+    return files
+  }
+
   async getFolderSize(folderPath: string): Promise<number> {
     let totalSize = 0
 
@@ -136,3 +382,32 @@ export class FolderComparer {
     return totalSize
   }
 }
+
+function isInside(path: string, folder: string): boolean {
+  return path.startsWith(folder.endsWith(sep) ? folder : folder + sep)
+}
+
+// Splits a folder's files into those with a copy in the other folder and
+// those without. Each copy in the other folder matches only one file.
+function matchFiles(
+  files: Map<string, string>,
+  other: Map<string, string>
+): { shared: string[]; unique: string[] } {
+  const available = new Map<string, number>()
+  for (const hash of other.values()) {
+    available.set(hash, (available.get(hash) || 0) + 1)
+  }
+
+  const shared: string[] = []
+  const unique: string[] = []
+  for (const [path, hash] of Array.from(files).sort()) {
+    const count = available.get(hash) || 0
+    if (hash !== "error" && count > 0) {
+      available.set(hash, count - 1)
+      shared.push(path)
+    } else {
+      unique.push(path)
+    }
+  }
+  return { shared, unique }
+}
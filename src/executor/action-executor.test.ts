@@ -0,0 +1,269 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import {
+  DuplicateAction,
+  DuplicateGroup,
+  DuplicateType
+} from "../types/duplicate"
+import { getFileMetadata } from "../utils/file-utils"
+import { Quarantine } from "../utils/quarantine"
+import { UndoSystem } from "../utils/undo-system"
+import { ActionExecutor } from "./action-executor"
+
+describe("ActionExecutor", () => {
+  const environment = { ...process.env }
+  let root: string
+  let undo: UndoSystem
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), "action-executor-"))
+    // Backups, undo history and the trash all live below the home directory
+    process.env.HOME = join(root, "home")
+    process.env.XDG_DATA_HOME = join(root, "home", ".local", "share")
+    undo = new UndoSystem()
+  })
+
+  afterEach(async () => {
+    process.env = { ...environment }
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  const writeFiles = async (files: Record<string, string>) => {
+    const paths: string[] = []
+    for (const [name, content] of Object.entries(files)) {
+      const path = join(root, name)
+      await fs.mkdir(join(path, ".."), { recursive: true })
+      await fs.writeFile(path, content)
+      paths.push(path)
+    }
+    return paths
+  }
+
+  const group = async (
+    actions: [string, DuplicateAction][],
+    targetPaths: [string, string][] = []
+  ): Promise<DuplicateGroup> => {
+    const files = await Promise.all(
+      actions.map(([path]) => getFileMetadata(path))
+    )
+    return {
+      id: `group_${files[0].path}`,
+      type: DuplicateType.CONTENT_BASED,
+      files,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+      potentialSavings: files[0].size,
+      actions: new Map(actions),
+      targetPaths: new Map(targetPaths)
+    }
+  }
+
+  const execute = async (
+    groups: DuplicateGroup[],
+    options: { dryRun?: boolean; quarantine?: Quarantine } = {}
+  ) => {
+    const executor = new ActionExecutor(
+      { enableUndo: true, transactional: true, ...options },
+      undo
+    )
+    return executor.execute(ActionExecutor.createPlans(groups))
+  }
+
+  const sessionOf = async () => (await undo.getSessions())[0].sessionId
+  const read = (path: string) => fs.readFile(path, "utf-8")
+  const exists = (path: string) =>
+    fs.lstat(path).then(
+      () => true,
+      () => false
+    )
+
+  it("deletes a copy and restores it from the backup on undo", async () => {
+    const [kept, copy] = await writeFiles({ "a.txt": "same", "b.txt": "same" })
+
+    const results = await execute([
+      await group([
+        [kept, DuplicateAction.KEEP],
+        [copy, DuplicateAction.DELETE]
+      ])
+    ])
+    expect(results).toMatchObject([{ path: copy, success: true }])
+    expect(await exists(copy)).toBe(false)
+
+    expect((await undo.undoSession(await sessionOf())).failed).toEqual([])
+    expect(await read(copy)).toBe("same")
+    expect(await undo.getRecentOperations()).toEqual([])
+  })
+
+  it("replaces a copy with a hard link and undoes it", async () => {
+    const [kept, copy] = await writeFiles({ "a.txt": "same", "b.txt": "same" })
+
+    await execute([
+      await group([
+        [kept, DuplicateAction.KEEP],
+        [copy, DuplicateAction.HARDLINK]
+      ])
+    ])
+    expect((await fs.stat(copy)).ino).toBe((await fs.stat(kept)).ino)
+
+    await undo.undoLast()
+    expect((await fs.stat(copy)).ino).not.toBe((await fs.stat(kept)).ino)
+    expect(await read(copy)).toBe("same")
+  })
+
+  it("trashes a copy and takes it back out on undo", async () => {
+    const [kept, copy] = await writeFiles({ "a.txt": "same", "b.txt": "same" })
+
+    const [result] = await execute([
+      await group([
+        [kept, DuplicateAction.KEEP],
+        [copy, DuplicateAction.TRASH]
+      ])
+    ])
+    expect(result.success).toBe(true)
+    expect(await read(result.newPath!)).toBe("same")
+
+    await undo.undoLast()
+    expect(await read(copy)).toBe("same")
+    expect(await exists(result.newPath!)).toBe(false)
+  })
+
+  it("takes an undone quarantine move off the manifest", async () => {
+    const [kept, copy] = await writeFiles({
+      "data/a.txt": "same",
+      "data/b.txt": "same"
+    })
+    const quarantine = new Quarantine(
+      join(root, "quarantine"),
+      join(root, "data")
+    )
+
+    await execute(
+      [
+        await group(
+          [
+            [kept, DuplicateAction.KEEP],
+            [copy, DuplicateAction.MOVE]
+          ],
+          [[copy, quarantine.targetPathFor(copy)]]
+        )
+      ],
+      { quarantine }
+    )
+    expect(await quarantine.list()).toMatchObject([{ originalPath: copy }])
+
+    const [operation] = await undo.getRecentOperations()
+    expect(await undo.undoOperation(operation.id)).toBe(true)
+    expect(await read(copy)).toBe("same")
+    expect(await quarantine.list()).toEqual([])
+  })
+
+  it("rolls the whole run back when one action fails", async () => {
+    const [kept, copy, other, taken] = await writeFiles({
+      "a.txt": "same",
+      "b.txt": "same",
+      "c.txt": "other",
+      "taken.txt": "in the way"
+    })
+
+    const results = await execute([
+      await group([
+        [kept, DuplicateAction.KEEP],
+        [copy, DuplicateAction.DELETE]
+      ]),
+      await group(
+        [
+          [taken, DuplicateAction.KEEP],
+          [other, DuplicateAction.RENAME]
+        ],
+        [[other, "taken.txt"]]
+      )
+    ])
+
+    expect(results).toMatchObject([
+      { path: copy, success: true, rolledBack: true },
+      { path: other, success: false }
+    ])
+    expect(await read(copy)).toBe("same")
+    expect(await read(other)).toBe("other")
+    expect(await undo.getRecentOperations()).toEqual([])
+  })
+
+  it("refuses a plan that removes every copy before touching anything", async () => {
+    const [first, second, third] = await writeFiles({
+      "a.txt": "same",
+      "b.txt": "same",
+      "c.txt": "other"
+    })
+
+    const results = await execute([
+      await group([
+        [first, DuplicateAction.DELETE],
+        [second, DuplicateAction.DELETE]
+      ]),
+      await group([[third, DuplicateAction.DELETE]])
+    ])
+
+    expect(results.every((result) => !result.success)).toBe(true)
+    expect(results[0].error).toBe("Every copy in this group would be removed")
+    expect(await exists(first)).toBe(true)
+    expect(await exists(second)).toBe(true)
+    expect(await exists(third)).toBe(true)
+  })
+
+  it("refuses a plan that removes the copy another group keeps", async () => {
+    const [a, b] = await writeFiles({ "a.txt": "same", "b.txt": "same" })
+
+    const plans = ActionExecutor.createPlans([
+      await group([
+        [a, DuplicateAction.KEEP],
+        [b, DuplicateAction.DELETE]
+      ]),
+      await group([
+        [b, DuplicateAction.KEEP],
+        [a, DuplicateAction.DELETE]
+      ])
+    ])
+
+    const refusals = await ActionExecutor.checkPlans(plans)
+    expect(refusals.get(plans[0])).toBe(`${b} is kept by another group`)
+    expect(refusals.get(plans[1])).toBe(`${a} is kept by another group`)
+  })
+
+  it("changes nothing in a dry run and spots clashing destinations", async () => {
+    const [a, b, c] = await writeFiles({
+      "a.txt": "same",
+      "b.txt": "same",
+      "c.txt": "same"
+    })
+
+    const results = await execute(
+      [
+        await group(
+          [
+            [a, DuplicateAction.KEEP],
+            [b, DuplicateAction.RENAME],
+            [c, DuplicateAction.RENAME]
+          ],
+          [
+            [b, "renamed.txt"],
+            [c, "renamed.txt"]
+          ]
+        )
+      ],
+      { dryRun: true }
+    )
+
+    expect(results).toMatchObject([
+      { path: b, success: true, newPath: join(root, "renamed.txt") },
+      {
+        path: c,
+        success: false,
+        error: `Destination already taken by ${b}: ${join(root, "renamed.txt")}`
+      }
+    ])
+    expect(await exists(b)).toBe(true)
+    expect(await exists(join(root, "renamed.txt"))).toBe(false)
+    expect(await undo.getSessions()).toEqual([])
+  })
+})
@@ -0,0 +1,563 @@
+import { promises as fs } from "fs"
+import { join, dirname, basename, isAbsolute, resolve } from "path"
+import {
+  ActionPlan,
+  ActionResult,
+  DuplicateAction,
+  DuplicateGroup,
+  DuplicateType,
+  LINK_ACTIONS
+} from "../types/duplicate"
+import { FileMetadata } from "../types/file"
+import {
+  calculateFileHash,
+  LinkKind,
+  movePath,
+  pathExists,
+  replaceWithLink,
+  supportsReflink
+} from "../utils/file-utils"
+import { Quarantine } from "../utils/quarantine"
+import { moveToTrash } from "../utils/trash"
+import { UndoSystem, undoSystem } from "../utils/undo-system"
+import { logger } from "../utils/logger"
+
+// Actions after which a path no longer holds its own copy of the content
+const REMOVING_ACTIONS: DuplicateAction[] = [
+  DuplicateAction.DELETE,
+  DuplicateAction.TRASH,
+  DuplicateAction.MOVE,
+  ...LINK_ACTIONS
+]
+
+export interface ExecutorOptions {
+  enableUndo: boolean
+  dryRun?: boolean // validate every action without touching the filesystem
+  transactional?: boolean // roll the whole run back when one action fails
+  quarantine?: Quarantine // MOVEs into it are written to its manifest
+}
+
+export class ActionExecutor {
+  private options: ExecutorOptions
+  private undo: UndoSystem
+  private sessionId?: string
+  // Destinations taken by MOVE/RENAME earlier in the run, so a dry run spots
+  // two files headed for the same path before either is on disk
+  private claimedPaths = new Map<string, string>()
+
+  constructor(
+    options: ExecutorOptions = {
+      enableUndo: true,
+      dryRun: false,
+      transactional: true
+    },
+    undo: UndoSystem = undoSystem
+  ) {
+    this.options = options
+    this.undo = undo
+  }
+
+  static createPlans(duplicateGroups: DuplicateGroup[]): ActionPlan[] {
+    const plans: ActionPlan[] = []
+
+    for (const group of duplicateGroups) {
+      const selectedActions = new Map<string, DuplicateAction>()
+      let estimatedSavings = 0
+
+      for (const file of group.files) {
+        const action = group.actions.get(file.path)
+        if (!action || action === DuplicateAction.KEEP) {
+          continue
+        }
+
+        selectedActions.set(file.path, action)
+        if (
+          action === DuplicateAction.DELETE ||
+          action === DuplicateAction.TRASH ||
+          LINK_ACTIONS.includes(action)
+        ) {
+          estimatedSavings += file.size
+        }
+      }
+
+      if (selectedActions.size > 0) {
+        plans.push({
+          duplicateGroup: group,
+          selectedActions,
+          targetPaths: new Map(group.targetPaths || []),
+          estimatedSavings
+        })
+      }
+    }
+
+    return plans
+  }
+
+  // Returns why each refused plan can't run: its group would lose every
+  // loose copy, it changes a file another group keeps and relies on, or it
+  // clones files on a filesystem without copy-on-write
+  static async checkPlans(
+    plans: ActionPlan[]
+  ): Promise<Map<ActionPlan, string>> {
+    const refusals = new Map<ActionPlan, string>()
+    const changedBy = new Map<string, ActionPlan[]>()
+    for (const plan of plans) {
+      for (const path of plan.selectedActions.keys()) {
+        changedBy.set(path, [...(changedBy.get(path) || []), plan])
+      }
+    }
+
+    for (const plan of plans) {
+      const kept = keptFiles(plan)
+      if (kept.length === 0) {
+        refusals.set(plan, "Every copy in this group would be removed")
+        continue
+      }
+
+      const actions = [...plan.selectedActions.values()]
+      if (!actions.some((action) => REMOVING_ACTIONS.includes(action))) {
+        continue
+      }
+
+      // Links point at one kept file, removals only need one to stay
+      const keeper = actions.some((action) => LINK_ACTIONS.includes(action))
+        ? linkKeeper(plan)
+        : undefined
+      const reliedOn = keeper ? [keeper] : kept
+      const othersChanging = (file: FileMetadata) =>
+        (changedBy.get(file.path) || []).filter((other) => other !== plan)
+      if (reliedOn.some((file) => othersChanging(file).length === 0)) {
+        continue
+      }
+
+      for (const file of reliedOn) {
+        for (const other of othersChanging(file)) {
+          if (!refusals.has(other)) {
+            refusals.set(other, `${file.path} is kept by another group`)
+          }
+        }
+      }
+    }
+
+    for (const plan of plans) {
+      if (refusals.has(plan)) continue
+      const refusal = await findReflinkRefusal(plan)
+      if (refusal) {
+        refusals.set(plan, refusal)
+      }
+    }
+
+    return refusals
+  }
+
+  async execute(
+    plans: ActionPlan[],
+    onResult?: (result: ActionResult) => void
+  ): Promise<ActionResult[]> {
+    const results: ActionResult[] = []
+    this.claimedPaths.clear()
+
+    // Refused plans fail before anything is touched
+    const refusals = await ActionExecutor.checkPlans(plans)
+    for (const [plan, reason] of refusals) {
+      for (const [path, action] of plan.selectedActions) {
+        const result: ActionResult = {
+          groupId: plan.duplicateGroup.id,
+          path,
+          action,
+          success: false,
+          error: reason
+        }
+        results.push(result)
+        onResult?.(result)
+      }
+      logger.warn("Action plan refused", {
+        groupId: plan.duplicateGroup.id,
+        reason
+      })
+    }
+    if (refusals.size > 0 && this.options.transactional) {
+      return results
+    }
+
+    if (this.options.enableUndo && !this.options.dryRun) {
+      await this.undo.initialize()
+      this.sessionId = this.undo.createSessionId()
+    }
+
+    logger.info("Executing action plans", {
+      planCount: plans.length,
+      sessionId: this.sessionId,
+      dryRun: !!this.options.dryRun
+    })
+
+    const rollbackOnFailure =
+      this.options.transactional && !this.options.dryRun && !!this.sessionId
+    let rolledBack = false
+
+    for (const plan of plans) {
+      if (rolledBack) break
+      if (refusals.has(plan)) continue
+
+      for (const [path, action] of plan.selectedActions) {
+        const result = await this.executeAction(plan, path, action)
+        results.push(result)
+        onResult?.(result)
+
+        if (!result.success && rollbackOnFailure) {
+          await this.rollback(results)
+          rolledBack = true
+          break
+        }
+      }
+    }
+
+    logger.info("Action plans executed", {
+      rolledBack,
+      succeeded: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length
+    })
+
+    return results
+  }
+
+  private async rollback(results: ActionResult[]): Promise<void> {
+    logger.warn("Action failed, rolling back session", {
+      sessionId: this.sessionId
+    })
+
+    const rollback = await this.undo.undoSession(this.sessionId!)
+    const undone = new Set(rollback.undone)
+
+    for (const result of results) {
+      if (result.operationId && undone.has(result.operationId)) {
+        result.rolledBack = true
+      }
+    }
+
+    if (rollback.failed.length > 0) {
+      logger.error("Session rollback incomplete", {
+        sessionId: this.sessionId,
+        failed: rollback.failed,
+        error: rollback.error
+      })
+    }
+  }
+
+  private async executeAction(
+    plan: ActionPlan,
+    path: string,
+    action: DuplicateAction
+  ): Promise<ActionResult> {
+    const result: ActionResult = {
+      groupId: plan.duplicateGroup.id,
+      path,
+      action,
+      success: false
+    }
+
+    try {
+      const file = plan.duplicateGroup.files.find((f) => f.path === path)
+      if (file?.archive) {
+        throw new Error("Files inside archives are read-only")
+      }
+      if (!(await pathExists(path))) {
+        throw new Error("File no longer exists")
+      }
+      if (file?.readOnly) {
+        throw new Error("Files in reference roots are read-only")
+      }
+
+      switch (action) {
+        case DuplicateAction.DELETE:
+          if (this.options.dryRun) {
+            break
+          }
+          result.operationId = await this.deletePath(
+            path,
+            plan.duplicateGroup.files.find((f) => f.path === path)?.hash
+          )
+          break
+
+        case DuplicateAction.TRASH: {
+          if (this.options.dryRun) {
+            break
+          }
+          const trashed = await this.trashPath(path)
+          result.newPath = trashed.newPath
+          result.operationId = trashed.operationId
+          break
+        }
+
+        case DuplicateAction.MOVE:
+        case DuplicateAction.RENAME: {
+          const target = plan.targetPaths.get(path)
+          if (!target) {
+            throw new Error(`No destination given for ${action}`)
+          }
+          result.newPath = await this.resolveTargetPath(path, action, target)
+          const claimedBy = this.claimedPaths.get(result.newPath)
+          if (claimedBy) {
+            throw new Error(
+              `Destination already taken by ${claimedBy}: ${result.newPath}`
+            )
+          }
+          if (this.options.dryRun) {
+            if (await pathExists(result.newPath)) {
+              throw new Error(`Destination already exists: ${result.newPath}`)
+            }
+            this.claimedPaths.set(result.newPath, path)
+            break
+          }
+          result.operationId = await this.relocatePath(
+            path,
+            result.newPath,
+            action
+          )
+          this.claimedPaths.set(result.newPath, path)
+          if (this.options.quarantine?.contains(result.newPath)) {
+            await this.options.quarantine.record(
+              path,
+              result.newPath,
+              plan.duplicateGroup.files.find((f) => f.path === path)?.size || 0
+            )
+          }
+          break
+        }
+
+        case DuplicateAction.HARDLINK:
+        case DuplicateAction.SYMLINK:
+        case DuplicateAction.REFLINK: {
+          const keeper = await this.checkLinkable(plan, path, action)
+          result.newPath = keeper.path
+          if (this.options.dryRun) {
+            break
+          }
+          result.operationId = await this.linkPath(path, keeper, action)
+          break
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${action}`)
+      }
+
+      result.success = true
+      logger.info(this.options.dryRun ? "Action simulated" : "Action applied", {
+        path,
+        action,
+        newPath: result.newPath
+      })
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Unknown error"
+      logger.error("Action failed", { path, action, error })
+    }
+
+    return result
+  }
+
+  private async deletePath(
+    path: string,
+    hash?: string
+  ): Promise<string | undefined> {
+    // The backup has to exist before the original disappears
+    const operationId = this.options.enableUndo
+      ? await this.undo.recordOperation({
+          action: DuplicateAction.DELETE,
+          originalPath: path,
+          backupHash: hash,
+          sessionId: this.sessionId
+        })
+      : undefined
+
+    try {
+      await fs.rm(path, { recursive: true })
+    } catch (error) {
+      if (operationId) {
+        await this.undo.discardOperation(operationId)
+      }
+      throw error
+    }
+
+    return operationId
+  }
+
+  private async trashPath(
+    path: string
+  ): Promise<{ newPath: string; operationId?: string }> {
+    const trashed = await moveToTrash(path)
+
+    if (!this.options.enableUndo) {
+      return { newPath: trashed.trashedPath }
+    }
+
+    const operationId = await this.undo.recordOperation({
+      action: DuplicateAction.TRASH,
+      originalPath: path,
+      newPath: trashed.trashedPath,
+      trashInfoPath: trashed.infoPath,
+      sessionId: this.sessionId
+    })
+    return { newPath: trashed.trashedPath, operationId }
+  }
+
+  private async relocatePath(
+    path: string,
+    newPath: string,
+    action: DuplicateAction
+  ): Promise<string | undefined> {
+    if (await pathExists(newPath)) {
+      throw new Error(`Destination already exists: ${newPath}`)
+    }
+
+    await movePath(path, newPath)
+
+    if (!this.options.enableUndo) {
+      return undefined
+    }
+
+    return this.undo.recordOperation({
+      action,
+      originalPath: path,
+      newPath,
+      quarantineDirectory: this.options.quarantine?.contains(newPath)
+        ? this.options.quarantine.directory
+        : undefined,
+      sessionId: this.sessionId
+    })
+  }
+
+  private async linkPath(
+    path: string,
+    keeper: FileMetadata,
+    action: DuplicateAction
+  ): Promise<string | undefined> {
+    // Like a delete, the original content is backed up before it's replaced
+    const operationId = this.options.enableUndo
+      ? await this.undo.recordOperation({
+          action,
+          originalPath: path,
+          backupHash: keeper.hash,
+          linkTarget: keeper.path,
+          sessionId: this.sessionId
+        })
+      : undefined
+
+    try {
+      await replaceWithLink(path, keeper.path, action as LinkKind)
+    } catch (error) {
+      if (operationId) {
+        await this.undo.discardOperation(operationId)
+      }
+      throw error
+    }
+
+    return operationId
+  }
+
+  // Links only make sense between identical files, and hard links and
+  // clones additionally need every file of the group on one device
+  private async checkLinkable(
+    plan: ActionPlan,
+    path: string,
+    action: DuplicateAction
+  ): Promise<FileMetadata> {
+    const group = plan.duplicateGroup
+    if (group.type !== DuplicateType.CONTENT_BASED) {
+      throw new Error("Only content-identical files can be linked")
+    }
+
+    const keeper = linkKeeper(plan)
+    if (!keeper) {
+      throw new Error("No kept file in this group to link to")
+    }
+
+    const keeperStats = await fs.stat(keeper.path)
+    const stats = await fs.lstat(path)
+    if (!stats.isFile() || !keeperStats.isFile()) {
+      throw new Error("Only regular files can be linked")
+    }
+
+    if (action !== DuplicateAction.SYMLINK) {
+      for (const [linkPath, linkAction] of plan.selectedActions) {
+        if (
+          linkAction !== DuplicateAction.SYMLINK &&
+          LINK_ACTIONS.includes(linkAction) &&
+          (await fs.stat(linkPath)).dev !== keeperStats.dev
+        ) {
+          throw new Error(
+            `${linkPath} is on a different device than ${keeper.path}`
+          )
+        }
+      }
+    }
+
+    // Either file may have changed since the scan
+    const [keeperHash, hash] = await Promise.all([
+      calculateFileHash(keeper.path),
+      calculateFileHash(path)
+    ])
+    if (keeperHash !== hash) {
+      throw new Error(`Contents no longer match ${keeper.path}`)
+    }
+
+    return { ...keeper, hash: keeperHash }
+  }
+
+  private async resolveTargetPath(
+    path: string,
+    action: DuplicateAction,
+    target: string
+  ): Promise<string> {
+    if (action === DuplicateAction.RENAME && basename(target) === target) {
+      // A bare name renames the file in place
+      return join(dirname(path), target)
+    }
+
+    const targetPath = isAbsolute(target) ? target : resolve(target)
+
+    try {
+      const stats = await fs.stat(targetPath)
+      if (stats.isDirectory()) {
+        return join(targetPath, basename(path))
+      }
+    } catch {
+      // Target doesn't exist yet, use it as the full destination path
+    }
+
+    return targetPath
+  }
+}
+
+// Loose files of the plan's group that still hold their content afterwards
+function keptFiles(plan: ActionPlan): FileMetadata[] {
+  return plan.duplicateGroup.files.filter((file) => {
+    const action = plan.selectedActions.get(file.path)
+    return !file.archive && (!action || !REMOVING_ACTIONS.includes(action))
+  })
+}
+
+// Archive members can't be linked to, a loose copy has to be kept
+function linkKeeper(plan: ActionPlan): FileMetadata | undefined {
+  return plan.duplicateGroup.files.find(
+    (file) =>
+      !file.archive &&
+      (!plan.selectedActions.has(file.path) ||
+        plan.selectedActions.get(file.path) === DuplicateAction.KEEP)
+  )
+}
+
+async function findReflinkRefusal(
+  plan: ActionPlan
+): Promise<string | undefined> {
+  for (const [path, action] of plan.selectedActions) {
+    if (action !== DuplicateAction.REFLINK) continue
+    try {
+      if (!(await supportsReflink(dirname(path)))) {
+        return `Copy-on-write clones are not supported on the filesystem of ${path}`
+      }
+    } catch (error) {
+      return error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,178 @@
+import { dirname, resolve, sep } from "path"
+import { DefaultActions, KeepStrategyName } from "../types/config"
+import {
+  DuplicateAction,
+  DuplicateGroup,
+  DuplicateType
+} from "../types/duplicate"
+import { FileMetadata } from "../types/file"
+import { matchesAnyPattern } from "../utils/file-utils"
+
+export const KEEP_STRATEGIES: KeepStrategyName[] = [
+  "oldest",
+  "newest",
+  "shortest-path",
+  "longest-path",
+  "preferred-prefix",
+  "most-populated"
+]
+
+export const KEEP_STRATEGY_DESCRIPTIONS: Record<KeepStrategyName, string> = {
+  oldest: "Keep the copy modified longest ago",
+  newest: "Keep the most recently modified copy",
+  "shortest-path": "Keep the copy with the shortest path",
+  "longest-path": "Keep the copy with the longest path",
+  "preferred-prefix": "Keep the copy under a preferred folder",
+  "most-populated": "Keep the copy in the folder with the most duplicates"
+}
+
+export const DEFAULT_KEEP_STRATEGY: KeepStrategyName[] = ["oldest"]
+
+// Parses a comma-separated list such as "preferred-prefix,oldest"
+export function parseKeepStrategies(spec: string): KeepStrategyName[] {
+  const names = spec
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+  for (const name of names) {
+    if (!KEEP_STRATEGIES.includes(name as KeepStrategyName)) {
+      throw new Error(
+        `Unknown keep strategy "${name}" (expected: ${KEEP_STRATEGIES.join(", ")})`
+      )
+    }
+  }
+
+  if (names.length === 0) {
+    throw new Error("No keep strategy given")
+  }
+  return names as KeepStrategyName[]
+}
+
+type FileComparator = (a: FileMetadata, b: FileMetadata) => number
+
+// Picks which copies of every group survive without asking about each one
+export class KeeperSelector {
+  private strategies: KeepStrategyName[]
+  private preferredPrefixes: string[]
+  private protectedPatterns: string[]
+  private directoryCounts = new Map<string, number>()
+
+  constructor(defaults: DefaultActions) {
+    // Configured names are validated here, config files aren't type checked
+    this.strategies = defaults.keepStrategy?.length
+      ? parseKeepStrategies(defaults.keepStrategy.join(","))
+      : DEFAULT_KEEP_STRATEGY
+    this.preferredPrefixes = (defaults.preferredPrefixes || []).map((prefix) =>
+      resolve(prefix)
+    )
+    this.protectedPatterns = defaults.protectedPatterns || []
+  }
+
+  isProtected(file: FileMetadata): boolean {
+    return matchesAnyPattern(file.path, this.protectedPatterns)
+  }
+
+  // Protected and reference files are always kept; otherwise the best
+  // ranked file is. Archive members never count as the kept copy
+  private selectKeepers(group: DuplicateGroup): FileMetadata[] {
+    const looseFiles = group.files.filter((file) => !file.archive)
+    const protectedFiles = looseFiles.filter(
+      (file) => file.readOnly || this.isProtected(file)
+    )
+    if (protectedFiles.length > 0) {
+      return protectedFiles
+    }
+
+    const [best] = [...looseFiles].sort((a, b) => this.compare(a, b))
+    return best ? [best] : []
+  }
+
+  // Sets KEEP on the keepers and removeAction on every other file of the
+  // identical-content groups; the others are left for the user to review.
+  // Returns how many groups got keepers
+  apply(
+    duplicateGroups: DuplicateGroup[],
+    removeAction: DuplicateAction,
+    targetPathFor?: (path: string) => string
+  ): number {
+    // Files of similar or same-named groups aren't copies of each other
+    const contentGroups = duplicateGroups.filter(
+      (group) => group.type === DuplicateType.CONTENT_BASED
+    )
+
+    // "Most populated" counts the duplicates each folder holds
+    this.directoryCounts.clear()
+    for (const group of contentGroups) {
+      for (const file of group.files) {
+        const directory = dirname(file.path)
+        this.directoryCounts.set(
+          directory,
+          (this.directoryCounts.get(directory) || 0) + 1
+        )
+      }
+    }
+
+    // A file kept in one group is never removed through another
+    const keepers = new Set<string>()
+    for (const group of contentGroups) {
+      for (const file of this.selectKeepers(group)) {
+        keepers.add(file.path)
+      }
+    }
+
+    for (const group of contentGroups) {
+      for (const file of group.files) {
+        if (keepers.has(file.path) || file.archive) {
+          group.actions.set(file.path, DuplicateAction.KEEP)
+          continue
+        }
+
+        group.actions.set(file.path, removeAction)
+        if (targetPathFor) {
+          group.targetPaths = group.targetPaths || new Map()
+          group.targetPaths.set(file.path, targetPathFor(file.path))
+        }
+      }
+    }
+    return contentGroups.length
+  }
+
+  private compare(a: FileMetadata, b: FileMetadata): number {
+    for (const strategy of this.strategies) {
+      const result = this.comparatorFor(strategy)(a, b)
+      if (result !== 0) {
+        return result
+      }
+    }
+
+    // Keep the choice stable when every strategy ties
+    return a.path.localeCompare(b.path)
+  }
+
+  private comparatorFor(strategy: KeepStrategyName): FileComparator {
+    switch (strategy) {
+      case "oldest":
+        return (a, b) => a.modified.getTime() - b.modified.getTime()
+      case "newest":
+        return (a, b) => b.modified.getTime() - a.modified.getTime()
+      case "shortest-path":
+        return (a, b) => a.path.length - b.path.length
+      case "longest-path":
+        return (a, b) => b.path.length - a.path.length
+      case "preferred-prefix":
+        return (a, b) => this.prefixRank(a) - this.prefixRank(b)
+      case "most-populated":
+        return (a, b) =>
+          (this.directoryCounts.get(dirname(b.path)) || 0) -
+          (this.directoryCounts.get(dirname(a.path)) || 0)
+    }
+  }
+
+  private prefixRank(file: FileMetadata): number {
+    const index = this.preferredPrefixes.findIndex(
+      (prefix) => file.path === prefix || file.path.startsWith(prefix + sep)
+    )
+    return index === -1 ? this.preferredPrefixes.length : index
+  }
+}
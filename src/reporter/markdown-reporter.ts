@@ -6,9 +6,19 @@ import {
   DuplicateStats,
   DuplicateType
 } from "../types/duplicate"
-import { formatFileSize, formatRelativeTime } from "../utils/file-utils"
+import {
+  formatFileSize,
+  formatRelativeTime,
+  formatSimilarity
+} from "../utils/file-utils"
+import { FOLDER_DIFF_MARKERS, renderFolderDiff } from "../utils/folder-tree"
 import { logger } from "../utils/logger"
 
+// Longer lists of a similar folder's unique files are cut short
+const MAX_LISTED_UNIQUE_FILES = 20
+const FOLDER_DIFF_MAX_LINES = 200
+const FOLDER_DIFF_COLUMN_WIDTH = 40
+
 export class MarkdownReporter {
   async generateReport(
     duplicateGroups: DuplicateGroup[],
@@ -47,12 +57,21 @@ export class MarkdownReporter {
     baseDirectory: string
   ): string {
     const timestamp = new Date().toISOString().split("T")[0]
+    const roots = this.collectRoots(duplicateGroups)
 
     let report = [
       `# Duplicate Files Report`,
       ``,
       `Generated on: ${timestamp}`,
-      `Directory: \`${baseDirectory}\``,
+      ...(roots.length > 1
+        ? [
+            `Roots:`,
+            ...roots.map(
+              ([root, readOnly]) =>
+                `- \`${root}\`${readOnly ? " (reference, read-only)" : ""}`
+            )
+          ]
+        : [`Directory: \`${baseDirectory}\``]),
       ``,
       `## Executive Summary`,
       ``,
@@ -66,6 +85,10 @@ export class MarkdownReporter {
       `- Name-based duplicates: ${stats.groupsByType[DuplicateType.NAME_BASED]} groups`,
       `- Content-based duplicates: ${stats.groupsByType[DuplicateType.CONTENT_BASED]} groups`,
       `- Folder-based duplicates: ${stats.groupsByType[DuplicateType.FOLDER_BASED]} groups`,
+      `- Similar folders: ${stats.groupsByType[DuplicateType.SIMILAR_FOLDER]} groups`,
+      `- Similar images: ${stats.groupsByType[DuplicateType.SIMILAR_IMAGE]} groups`,
+      `- Similar text files: ${stats.groupsByType[DuplicateType.SIMILAR_TEXT]} groups`,
+      `- Similar media: ${stats.groupsByType[DuplicateType.SIMILAR_MEDIA]} groups`,
       ``,
       `## Cleanup Action Plan`,
       ``,
@@ -74,6 +97,7 @@ export class MarkdownReporter {
       `1. **Review Content-Based Duplicates First** 📋`,
       `   - These are files with identical content but potentially different names`,
       `   - High confidence for safe deletion`,
+      `   - Can be hard linked, symlinked or reflinked instead of deleted to keep every path`,
       `   - Estimated savings: ${formatFileSize(this.calculateSavingsByType(duplicateGroups, DuplicateType.CONTENT_BASED))}`,
       ``,
       `2. **Review Name-Based Duplicates** 📝`,
@@ -84,6 +108,20 @@ export class MarkdownReporter {
       `3. **Clean Up Folder Duplicates** 📁`,
       `   - Entire directories with duplicate content`,
       `   - Review for any unique files before deletion`,
+      `   - Similar folders list the files only one side has; copy them over before removing the smaller folder`,
+      ``,
+      `4. **Compare Similar Images** 🖼️`,
+      `   - Resized, re-encoded or lightly edited copies of the same picture`,
+      `   - Not byte-identical, so open them side by side before deleting`,
+      `   - The largest file is usually the original`,
+      ``,
+      `5. **Diff Similar Text Files** 📃`,
+      `   - Mostly the same text, such as configs with a changed line or docs with an edited footer`,
+      `   - Diff them before deleting, the differences may matter`,
+      ``,
+      `6. **Listen to Similar Media** 🎵`,
+      `   - The same song or clip in another format, bitrate or container`,
+      `   - Compare quality and tags before keeping one, the larger file is usually the better encode`,
       ``,
       `### Safety Guidelines`,
       ``,
@@ -102,11 +140,22 @@ export class MarkdownReporter {
       report.push(`### Group ${index + 1}: ${this.getGroupTitle(group)}`)
       report.push(``)
       report.push(`**Type:** ${group.type}`)
+      if (group.matchReason) {
+        report.push(`**Why:** ${group.matchReason}`)
+      }
       report.push(`**Files:** ${group.files.length}`)
+      if (group.coveredGroups) {
+        report.push(
+          `**Nested Groups:** ${group.coveredGroups} inside these folders, folded into this one`
+        )
+      }
       report.push(`**Total Size:** ${formatFileSize(group.totalSize)}`)
       report.push(
         `**Potential Savings:** ${formatFileSize(group.potentialSavings)}`
       )
+      if (group.similarity !== undefined) {
+        report.push(`**Similarity:** ${formatSimilarity(group.similarity)}`)
+      }
       report.push(``)
 
       report.push(`| File Path | Size | Modified | Action |`)
@@ -116,7 +165,13 @@ export class MarkdownReporter {
         const relativePath = file.path.replace(baseDirectory, ".")
         const size = formatFileSize(file.size)
         const modified = formatRelativeTime(file.modified)
-        const action = group.actions.get(file.path) || "Pending"
+        const action =
+          group.actions.get(file.path) ||
+          (file.archive
+            ? "In archive"
+            : file.readOnly
+              ? "Reference"
+              : "Pending")
 
         report.push(
           `| \`${relativePath}\` | ${size} | ${modified} | ${action} |`
@@ -124,6 +179,50 @@ export class MarkdownReporter {
       })
 
       report.push(``)
+
+      if (group.uniqueFiles) {
+        for (const [folder, paths] of Object.entries(group.uniqueFiles)) {
+          const relativeFolder = folder.replace(baseDirectory, ".")
+          if (paths.length === 0) {
+            report.push(`**Only in \`${relativeFolder}\`:** nothing`)
+            report.push(``)
+            continue
+          }
+
+          report.push(`**Only in \`${relativeFolder}\`:**`)
+          for (const path of paths.slice(0, MAX_LISTED_UNIQUE_FILES)) {
+            report.push(`- \`${path}\``)
+          }
+          if (paths.length > MAX_LISTED_UNIQUE_FILES) {
+            report.push(
+              `- ...and ${paths.length - MAX_LISTED_UNIQUE_FILES} more`
+            )
+          }
+          report.push(``)
+        }
+      }
+
+      if (group.folderDiff) {
+        const labels = group.files.map((file) =>
+          file.path.replace(baseDirectory, ".")
+        )
+        const lines = renderFolderDiff(group.folderDiff, labels, {
+          columnWidth: FOLDER_DIFF_COLUMN_WIDTH,
+          maxLines: FOLDER_DIFF_MAX_LINES,
+          collapseIdentical: group.type !== DuplicateType.FOLDER_BASED
+        })
+
+        report.push(
+          `**Folder Comparison** (\`${FOLDER_DIFF_MARKERS.identical}\` identical, ` +
+            `\`${FOLDER_DIFF_MARKERS.differs}\` differs, ` +
+            `\`${FOLDER_DIFF_MARKERS.missing}\` missing from a folder):`
+        )
+        report.push(``)
+        report.push("```")
+        report.push(...lines.map((line) => line.text))
+        report.push("```")
+        report.push(``)
+      }
     })
 
     // Add footer with recommendations
@@ -148,8 +247,9 @@ export class MarkdownReporter {
     report.push(`# Compare file contents:`)
     report.push(`diff "file1" "file2"`)
     report.push(``)
-    report.push(`# Safe deletion (move to trash on macOS):`)
-    report.push(`trash "path/to/duplicate/file"`)
+    report.push(`# Safe deletion (move to trash, restorable from the desktop):`)
+    report.push(`gio trash "path/to/duplicate/file"  # Linux`)
+    report.push(`trash "path/to/duplicate/file"      # macOS`)
     report.push(`\`\`\``)
     report.push(``)
     report.push(`---`)
@@ -158,6 +258,20 @@ export class MarkdownReporter {
     return report.join("\n")
   }
 
+  // Each root with whether it's a read-only reference
+  private collectRoots(duplicateGroups: DuplicateGroup[]): [string, boolean][] {
+    const roots = new Map<string, boolean>()
+    for (const group of duplicateGroups) {
+      for (const file of group.files) {
+        // Archive members are read-only wherever the archive is
+        if (file.root && !file.archive) {
+          roots.set(file.root, file.readOnly || false)
+        }
+      }
+    }
+    return Array.from(roots).sort((a, b) => Number(a[1]) - Number(b[1]))
+  }
+
   private getGroupTitle(group: DuplicateGroup): string {
     if (group.files.length === 0) return "Empty Group"
 
@@ -166,6 +280,14 @@ export class MarkdownReporter {
       return `"${firstFile.name}" (${group.files.length} locations)`
     } else if (group.type === DuplicateType.CONTENT_BASED) {
       return `Content Match (${group.files.length} files)`
+    } else if (group.type === DuplicateType.SIMILAR_IMAGE) {
+      return `Similar Images (${group.files.length} files)`
+    } else if (group.type === DuplicateType.SIMILAR_TEXT) {
+      return `Similar Text (${group.files.length} files)`
+    } else if (group.type === DuplicateType.SIMILAR_MEDIA) {
+      return `Similar Media (${group.files.length} files)`
+    } else if (group.type === DuplicateType.SIMILAR_FOLDER) {
+      return `Similar Folders (${group.files.length} folders)`
     } else {
       return `Folder Match (${group.files.length} folders)`
     }
@@ -180,7 +302,11 @@ export class MarkdownReporter {
       groupsByType: {
         [DuplicateType.NAME_BASED]: 0,
         [DuplicateType.CONTENT_BASED]: 0,
-        [DuplicateType.FOLDER_BASED]: 0
+        [DuplicateType.FOLDER_BASED]: 0,
+        [DuplicateType.SIMILAR_IMAGE]: 0,
+        [DuplicateType.SIMILAR_TEXT]: 0,
+        [DuplicateType.SIMILAR_MEDIA]: 0,
+        [DuplicateType.SIMILAR_FOLDER]: 0
       }
     }
 
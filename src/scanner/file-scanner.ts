@@ -1,19 +1,56 @@
 import { promises as fs } from "fs"
-import { join, relative } from "path"
-import { FileMetadata, ScanOptions, ScanResult } from "../types/file"
+import { basename, extname, join, relative, sep } from "path"
+import {
+  FileMetadata,
+  ImageHashAlgorithm,
+  ScanOptions,
+  ScanProgress,
+  ScanResult,
+  ScanRoot
+} from "../types/file"
 import {
   getFileMetadata,
   shouldIgnoreFile,
-  calculateFileHash
+  calculateFileHash,
+  calculatePartialHash,
+  PARTIAL_HASH_SAMPLE_SIZE
 } from "../utils/file-utils"
 import { GitignoreParser } from "../utils/gitignore-parser"
+import { calculatePerceptualHash, isHashableImage } from "../utils/image-hash"
+import { hashCache, HashKind } from "../utils/hash-cache"
+import { HashWorkerPool, runWithConcurrency } from "../utils/worker-pool"
+import {
+  calculateMinHash,
+  isTextCandidate,
+  MAX_TEXT_FILE_SIZE
+} from "../utils/text-similarity"
+import { isMediaFile, readMediaInfo } from "../utils/media-metadata"
+import {
+  archiveMemberPath,
+  isArchive,
+  readArchiveMembers
+} from "../utils/archive-reader"
 import { logger } from "../utils/logger"
 
+export const DEFAULT_SCAN_CONCURRENCY = 8
+// Decoded images take far more memory than hashing streams do
+const IMAGE_HASH_CONCURRENCY = 2
+const PROGRESS_INTERVAL_MS = 100
+
 export class FileScanner {
   private scanOptions: ScanOptions
+  private onProgress?: (progress: ScanProgress) => void
+  private progress: ScanProgress = FileScanner.emptyProgress()
+  private lastProgressAt = 0
+  private hashingStartedAt = 0
+  private workerPool?: HashWorkerPool
 
-  constructor(scanOptions: ScanOptions) {
+  constructor(
+    scanOptions: ScanOptions,
+    onProgress?: (progress: ScanProgress) => void
+  ) {
     this.scanOptions = scanOptions
+    this.onProgress = onProgress
   }
 
   async scan(): Promise<ScanResult> {
@@ -21,35 +58,81 @@ export class FileScanner {
     logger.info("Starting file scan", { directory: this.scanOptions.directory })
 
     try {
-      const filePaths = await this.getFilePathsNative()
+      this.progress = FileScanner.emptyProgress()
+      const roots = this.getRoots()
+
+      // Overlapping roots would otherwise list the same path twice
+      const discoveredPaths = new Set<string>()
+      for (const root of roots) {
+        for (const filePath of await this.getFilePathsNative(root.path)) {
+          discoveredPaths.add(filePath)
+        }
+      }
+      const filePaths = Array.from(discoveredPaths).filter(
+        (filePath) =>
+          !shouldIgnoreFile(filePath, this.scanOptions.ignorePatterns)
+      )
+
+      this.progress.phase = "reading-metadata"
+      this.reportProgress(true)
+
+      // Keep results in discovery order even though stat() calls overlap
+      const metadataResults: (FileMetadata | undefined)[] = new Array(
+        filePaths.length
+      )
+      await runWithConcurrency(
+        filePaths,
+        this.concurrency(),
+        async (filePath, index) => {
+          try {
+            const root = this.findRoot(filePath, roots)
+            metadataResults[index] = {
+              ...(await getFileMetadata(filePath)),
+              root: root.path,
+              readOnly: root.readOnly
+            }
+          } catch (error) {
+            logger.warn("Failed to get metadata for file", { filePath, error })
+          }
+        }
+      )
+
       const files: FileMetadata[] = []
       const directories: FileMetadata[] = []
       let totalSize = 0
 
-      for (const filePath of filePaths) {
-        if (shouldIgnoreFile(filePath, this.scanOptions.ignorePatterns)) {
+      for (const metadata of metadataResults) {
+        if (!metadata) {
           continue
         }
 
-        try {
-          const metadata = await getFileMetadata(filePath)
-
-          if (metadata.isDirectory) {
-            directories.push(metadata)
-          } else {
-            // Calculate hash for content-based duplicate detection
-            if (metadata.size > 0) {
-              metadata.hash = await calculateFileHash(filePath)
-            }
-            files.push(metadata)
-            totalSize += metadata.size
-          }
-        } catch (error) {
-          logger.warn("Failed to get metadata for file", { filePath, error })
-          continue
+        if (metadata.isDirectory) {
+          directories.push(metadata)
+        } else {
+          files.push(metadata)
+          totalSize += metadata.size
         }
       }
 
+      // Archive members are hashed while they're listed, and only take part
+      // in content and name matching
+      const members = this.scanOptions.scanArchives
+        ? await this.readArchives(files)
+        : []
+
+      // Calculate hashes for content-based duplicate detection
+      await this.hashCandidates([...files, ...members])
+      if (this.scanOptions.imageHashAlgorithm) {
+        await this.hashImages(files, this.scanOptions.imageHashAlgorithm)
+      }
+      if (this.scanOptions.textExtensions) {
+        await this.hashTexts(files, this.scanOptions.textExtensions)
+      }
+      if (this.scanOptions.mediaAnalysis) {
+        await this.readMedia(files, this.scanOptions.mediaAnalysis.fingerprints)
+      }
+      files.push(...members)
+
       const scanTime = Date.now() - startTime
       logger.info("File scan completed", {
         totalFiles: files.length,
@@ -71,12 +154,403 @@ export class FileScanner {
     }
   }
 
-  private async getFilePathsNative(): Promise<string[]> {
-    const filePaths: string[] = []
-    const gitignoreParser = await GitignoreParser.createCombinedParser(
-      this.scanOptions.directory
+  // Staged pipeline: only files sharing a size get a partial hash, and only
+  // files sharing a partial hash get a full hash
+  private async hashCandidates(files: FileMetadata[]): Promise<void> {
+    if (this.scanOptions.useCache) {
+      await hashCache.load()
+    }
+
+    const maxFileSize = this.scanOptions.maxFileSize || Infinity
+    const sizeCandidates = this.findCollisions(
+      files.filter((file) => file.size > 0 && file.size <= maxFileSize),
+      (file) => String(file.size)
+    )
+
+    const memberSizes = new Set(
+      files.filter((file) => file.archive).map((file) => file.size)
+    )
+    const partialHashes = new Map<FileMetadata, string>()
+    const partialCandidates: FileMetadata[] = []
+    // A partial hash can't be compared with an archive member's, so files
+    // the size of one are hashed fully
+    const memberCandidates: FileMetadata[] = []
+    for (const file of sizeCandidates) {
+      if (file.archive) {
+        continue
+      }
+
+      if (memberSizes.has(file.size)) {
+        memberCandidates.push(file)
+      } else if (file.size <= PARTIAL_HASH_SAMPLE_SIZE * 2) {
+        // Small files are read completely by the partial hash anyway
+        partialHashes.set(file, `full:${file.size}`)
+      } else {
+        partialCandidates.push(file)
+      }
+    }
+
+    if (this.scanOptions.useWorkerThreads) {
+      this.workerPool = new HashWorkerPool(this.concurrency())
+    }
+
+    try {
+      await runWithConcurrency(
+        partialCandidates,
+        this.concurrency(),
+        async (file) => {
+          try {
+            const partialHash = await this.getHash(file, "partial")
+            partialHashes.set(file, `${file.size}:${partialHash}`)
+          } catch (error) {
+            logger.warn("Failed to calculate partial hash", {
+              filePath: file.path,
+              error
+            })
+          }
+        }
+      )
+
+      const hashCandidates = [
+        ...this.findCollisions(
+          Array.from(partialHashes.keys()),
+          (file) => partialHashes.get(file)!
+        ),
+        ...memberCandidates
+      ]
+
+      this.progress.phase = "hashing"
+      this.progress.filesToHash = hashCandidates.length
+      this.progress.bytesToHash = hashCandidates.reduce(
+        (sum, file) => sum + file.size,
+        0
+      )
+      this.hashingStartedAt = Date.now()
+      this.reportProgress(true)
+
+      await runWithConcurrency(
+        hashCandidates,
+        this.concurrency(),
+        async (file) => {
+          try {
+            file.hash = await this.getHash(file, "full")
+          } catch (error) {
+            logger.warn("Failed to calculate file hash", {
+              filePath: file.path,
+              error
+            })
+          }
+
+          this.progress.filesHashed++
+          this.progress.bytesHashed += file.size
+          this.reportProgress()
+        }
+      )
+
+      logger.info("Hash candidates filtered", {
+        totalFiles: files.length,
+        sizeCollisions: sizeCandidates.length,
+        fullyHashed: hashCandidates.length
+      })
+    } finally {
+      await this.workerPool?.destroy()
+      this.workerPool = undefined
+    }
+
+    if (this.scanOptions.useCache) {
+      await hashCache.save()
+    }
+  }
+
+  // Images can look alike with no bytes in common, so every image is hashed
+  private async hashImages(
+    files: FileMetadata[],
+    algorithm: ImageHashAlgorithm
+  ): Promise<void> {
+    const maxFileSize = this.scanOptions.maxFileSize || Infinity
+    const images = files.filter(
+      (file) =>
+        file.size > 0 && file.size <= maxFileSize && isHashableImage(file)
     )
 
+    this.progress.phase = "hashing-images"
+    this.progress.filesFingerprinted = 0
+    this.progress.filesToFingerprint = images.length
+    this.reportProgress(true)
+
+    await runWithConcurrency(images, IMAGE_HASH_CONCURRENCY, async (file) => {
+      try {
+        const cached = this.scanOptions.useCache
+          ? hashCache.getPerceptualHash(file, algorithm)
+          : undefined
+        file.perceptualHash =
+          cached || (await calculatePerceptualHash(file.path, algorithm))
+
+        if (this.scanOptions.useCache && !cached) {
+          hashCache.setPerceptualHash(file, algorithm, file.perceptualHash)
+        }
+      } catch (error) {
+        // Corrupt, truncated or unusual images are just left out
+        logger.warn("Failed to calculate perceptual hash", {
+          filePath: file.path,
+          error
+        })
+      }
+
+      this.progress.filesFingerprinted++
+      this.reportProgress()
+    })
+
+    logger.info("Images hashed", {
+      algorithm,
+      images: images.length,
+      hashed: images.filter((file) => file.perceptualHash).length
+    })
+
+    if (this.scanOptions.useCache) {
+      await hashCache.save()
+    }
+  }
+
+  // Near-identical text shares no hash either, so every text file is read
+  private async hashTexts(
+    files: FileMetadata[],
+    extensions: string[]
+  ): Promise<void> {
+    const maxFileSize = Math.min(
+      this.scanOptions.maxFileSize || Infinity,
+      MAX_TEXT_FILE_SIZE
+    )
+    const texts = files.filter(
+      (file) =>
+        file.size > 0 &&
+        file.size <= maxFileSize &&
+        isTextCandidate(file, extensions)
+    )
+
+    this.progress.phase = "hashing-text"
+    this.progress.filesFingerprinted = 0
+    this.progress.filesToFingerprint = texts.length
+    this.reportProgress(true)
+
+    await runWithConcurrency(texts, this.concurrency(), async (file) => {
+      try {
+        file.minHash = await calculateMinHash(file.path)
+      } catch (error) {
+        logger.warn("Failed to calculate text signature", {
+          filePath: file.path,
+          error
+        })
+      }
+
+      this.progress.filesFingerprinted++
+      this.reportProgress()
+    })
+
+    logger.info("Text files hashed", {
+      candidates: texts.length,
+      hashed: texts.filter((file) => file.minHash).length
+    })
+  }
+
+  // Members become virtual, read-only files like "backup.zip!/docs/a.txt"
+  private async readArchives(files: FileMetadata[]): Promise<FileMetadata[]> {
+    const archives = files.filter((file) => file.size > 0 && isArchive(file))
+    const maxFileSize = this.scanOptions.maxFileSize || Infinity
+
+    this.progress.phase = "reading-archives"
+    this.progress.filesFingerprinted = 0
+    this.progress.filesToFingerprint = archives.length
+    this.reportProgress(true)
+
+    // Kept per archive so members stay in a stable order
+    const membersByArchive: FileMetadata[][] = new Array(archives.length)
+    await runWithConcurrency(
+      archives,
+      this.concurrency(),
+      async (archive, index) => {
+        try {
+          const members = await readArchiveMembers(archive.path, maxFileSize)
+          membersByArchive[index] = members
+            .map((member) => ({
+              path: archiveMemberPath(archive.path, member.path),
+              name: basename(member.path),
+              size: member.size,
+              modified: member.modified,
+              created: member.modified,
+              isDirectory: false,
+              // Empty files aren't compared by content, loose or not
+              hash: member.size > 0 ? member.hash : undefined,
+              extension: extname(member.path).toLowerCase() || undefined,
+              root: archive.root,
+              archive: archive.path
+            }))
+            .filter(
+              (member) =>
+                !shouldIgnoreFile(member.path, this.scanOptions.ignorePatterns)
+            )
+        } catch (error) {
+          logger.warn("Failed to read archive", {
+            filePath: archive.path,
+            error
+          })
+        }
+
+        this.progress.filesFingerprinted++
+        this.reportProgress()
+      }
+    )
+
+    const members = membersByArchive.filter(Boolean).flat()
+    logger.info("Archives read", {
+      archives: archives.length,
+      members: members.length
+    })
+    return members
+  }
+
+  // Re-encoded media shares nothing but its length and tags
+  private async readMedia(
+    files: FileMetadata[],
+    withFingerprints: boolean
+  ): Promise<void> {
+    const mediaFiles = files.filter(
+      (file) => file.size > 0 && isMediaFile(file)
+    )
+
+    this.progress.phase = "reading-media"
+    this.progress.filesFingerprinted = 0
+    this.progress.filesToFingerprint = mediaFiles.length
+    this.reportProgress(true)
+
+    await runWithConcurrency(mediaFiles, this.concurrency(), async (file) => {
+      try {
+        file.media = await readMediaInfo(
+          file.path,
+          file.extension!,
+          withFingerprints
+        )
+      } catch (error) {
+        logger.warn("Failed to read media metadata", {
+          filePath: file.path,
+          error
+        })
+      }
+
+      this.progress.filesFingerprinted++
+      this.reportProgress()
+    })
+
+    logger.info("Media files read", {
+      candidates: mediaFiles.length,
+      withDuration: mediaFiles.filter((file) => file.media?.durationMs).length
+    })
+  }
+
+  private async getHash(file: FileMetadata, kind: HashKind): Promise<string> {
+    if (this.scanOptions.useCache) {
+      const cached = hashCache.get(file, kind)
+      if (cached) {
+        return cached
+      }
+    }
+
+    let hash: string
+    if (this.workerPool) {
+      hash = await this.workerPool.hash(file.path, kind, file.size)
+    } else {
+      hash =
+        kind === "full"
+          ? await calculateFileHash(file.path)
+          : await calculatePartialHash(file.path, file.size)
+    }
+
+    if (this.scanOptions.useCache) {
+      hashCache.set(file, kind, hash)
+    }
+    return hash
+  }
+
+  private getRoots(): ScanRoot[] {
+    return this.scanOptions.roots?.length
+      ? this.scanOptions.roots
+      : [{ path: this.scanOptions.directory, readOnly: false }]
+  }
+
+  // The most specific root wins, so a reference root nested inside a
+  // writable one still protects its files
+  private findRoot(filePath: string, roots: ScanRoot[]): ScanRoot {
+    const containing = roots.filter(
+      (root) =>
+        filePath === root.path ||
+        filePath.startsWith(
+          root.path.endsWith(sep) ? root.path : root.path + sep
+        )
+    )
+    return containing.reduce((best, root) =>
+      root.path.length > best.path.length ? root : best
+    )
+  }
+
+  private concurrency(): number {
+    return Math.max(1, this.scanOptions.concurrency || DEFAULT_SCAN_CONCURRENCY)
+  }
+
+  private reportProgress(force: boolean = false): void {
+    if (!this.onProgress) return
+
+    const now = Date.now()
+    if (!force && now - this.lastProgressAt < PROGRESS_INTERVAL_MS) {
+      return
+    }
+    this.lastProgressAt = now
+
+    const { bytesHashed, bytesToHash } = this.progress
+    if (this.progress.phase === "hashing" && bytesHashed > 0) {
+      const bytesPerMs = bytesHashed / Math.max(1, now - this.hashingStartedAt)
+      this.progress.etaMs = (bytesToHash - bytesHashed) / bytesPerMs
+    }
+
+    this.onProgress({ ...this.progress })
+  }
+
+  private static emptyProgress(): ScanProgress {
+    return {
+      phase: "discovering",
+      filesSeen: 0,
+      filesHashed: 0,
+      filesToHash: 0,
+      bytesHashed: 0,
+      bytesToHash: 0,
+      filesFingerprinted: 0,
+      filesToFingerprint: 0
+    }
+  }
+
+  private findCollisions(
+    files: FileMetadata[],
+    keyOf: (file: FileMetadata) => string
+  ): FileMetadata[] {
+    const groups = new Map<string, FileMetadata[]>()
+
+    for (const file of files) {
+      const key = keyOf(file)
+      if (!groups.has(key)) {
+        groups.set(key, [])
+      }
+      groups.get(key)!.push(file)
+    }
+
+    return Array.from(groups.values())
+      .filter((group) => group.length > 1)
+      .flat()
+  }
+
+  private async getFilePathsNative(rootDirectory: string): Promise<string[]> {
+    const filePaths: string[] = []
+    const gitignoreParser =
+      await GitignoreParser.createCombinedParser(rootDirectory)
+
     const scanDirectory = async (
       directory: string,
       currentDepth: number = 0
@@ -94,7 +568,7 @@ export class FileScanner {
 
         for (const entry of entries) {
           const fullPath = join(directory, entry.name)
-          const relativePath = relative(this.scanOptions.directory, fullPath)
+          const relativePath = relative(rootDirectory, fullPath)
 
           // Skip hidden files unless includeHidden is true
           if (!this.scanOptions.includeHidden && entry.name.startsWith(".")) {
@@ -108,6 +582,8 @@ export class FileScanner {
 
           // Add to results
           filePaths.push(fullPath)
+          this.progress.filesSeen++
+          this.reportProgress()
 
           // Recursively scan subdirectories
           if (entry.isDirectory()) {
@@ -135,7 +611,7 @@ export class FileScanner {
       }
     }
 
-    await scanDirectory(this.scanOptions.directory)
+    await scanDirectory(rootDirectory)
     return filePaths
   }
 }
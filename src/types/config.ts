@@ -1,11 +1,52 @@
+import { ImageHashAlgorithm } from "./file"
+
+export type KeepStrategyName =
+  | "oldest"
+  | "newest"
+  | "shortest-path"
+  | "longest-path"
+  | "preferred-prefix"
+  | "most-populated"
+
+export interface DefaultActions {
+  keepStrategy?: KeepStrategyName[] // later strategies break ties
+  preferredPrefixes?: string[] // earlier prefixes win for "preferred-prefix"
+  protectedPatterns?: string[] // matching files are never removed
+}
+
+export interface NameMatchingOptions {
+  ignoreCase: boolean
+  stripCopySuffixes: boolean // "report (1).pdf" and "report copy.pdf" match
+  ignoreExtension: boolean
+  maxEditDistance: number // 0 only groups names that normalize the same
+}
+
 export interface AppConfig {
   ignorePatterns: string[]
-  defaultActions: Record<string, string>
+  defaultActions: DefaultActions
   reportOutputPath: string
   colorScheme: "auto" | "always" | "never"
   confirmDestructiveActions: boolean
+  defaultDestructiveAction: "delete" | "trash" // used by "all but one" actions
+  quarantineDirectory: string // empty asks for a folder on first use
   maxFileSize: number
+  nameMatching: NameMatchingOptions
+  detectSimilarImages: boolean // decode images and compare perceptual hashes
+  imageHashAlgorithm: ImageHashAlgorithm
+  imageSimilarityThreshold: number // max differing bits of 64
+  detectSimilarText: boolean // compare shingles of text files
+  textExtensions: string[] // files compared as text, binary content is skipped
+  textSimilarityThreshold: number // 0-1, share of shingles in common
+  detectSimilarMedia: boolean // compare tags and lengths of audio and video
+  mediaFingerprints: boolean // also fingerprint decoded audio (WAV only)
+  mediaDurationTolerance: number // seconds
+  detectSimilarFolders: boolean // also report folders mostly copied elsewhere
+  folderSimilarityThreshold: number // 0-1, share of a folder's files copied
+  collapseNestedGroups: boolean // fold groups inside duplicate folders into them
+  scanArchives: boolean // compare files inside zip and tar archives too
   enableUndo: boolean
+  backupRetentionDays: number // 0 keeps undo backups forever
+  backupMaxSize: number // bytes, 0 means unlimited
 }
 
 export const DEFAULT_CONFIG: AppConfig = {
@@ -27,6 +68,53 @@ export const DEFAULT_CONFIG: AppConfig = {
   reportOutputPath: "./duplicate-report.md",
   colorScheme: "auto",
   confirmDestructiveActions: true,
+  defaultDestructiveAction: "delete",
+  quarantineDirectory: "",
   maxFileSize: 100 * 1024 * 1024, // 100MB
-  enableUndo: true
+  nameMatching: {
+    ignoreCase: true,
+    stripCopySuffixes: true,
+    ignoreExtension: false,
+    maxEditDistance: 0
+  },
+  detectSimilarImages: false,
+  imageHashAlgorithm: "phash",
+  imageSimilarityThreshold: 10,
+  detectSimilarText: false,
+  textExtensions: [
+    ".txt",
+    ".md",
+    ".rst",
+    ".csv",
+    ".tsv",
+    ".json",
+    ".yaml",
+    ".yml",
+    ".toml",
+    ".ini",
+    ".cfg",
+    ".conf",
+    ".env",
+    ".xml",
+    ".html",
+    ".htm",
+    ".css",
+    ".js",
+    ".ts",
+    ".py",
+    ".sh",
+    ".sql",
+    ".tex"
+  ],
+  textSimilarityThreshold: 0.7,
+  detectSimilarMedia: false,
+  mediaFingerprints: false,
+  mediaDurationTolerance: 2,
+  detectSimilarFolders: false,
+  folderSimilarityThreshold: 0.9,
+  collapseNestedGroups: true,
+  scanArchives: false,
+  enableUndo: true,
+  backupRetentionDays: 30,
+  backupMaxSize: 0
 }
@@ -1,18 +1,34 @@
+import { NameMatchingOptions } from "./config"
 import { FileMetadata } from "./file"
 
 export enum DuplicateType {
   NAME_BASED = "name-based",
   CONTENT_BASED = "content-based",
-  FOLDER_BASED = "folder-based"
+  FOLDER_BASED = "folder-based",
+  SIMILAR_IMAGE = "similar-image",
+  SIMILAR_TEXT = "similar-text",
+  SIMILAR_MEDIA = "similar-media",
+  SIMILAR_FOLDER = "similar-folder"
 }
 
 export enum DuplicateAction {
   KEEP = "keep",
   DELETE = "delete",
+  TRASH = "trash",
   MOVE = "move",
-  RENAME = "rename"
+  RENAME = "rename",
+  HARDLINK = "hardlink",
+  SYMLINK = "symlink",
+  REFLINK = "reflink"
 }
 
+// Actions that keep the path but point it at the group's kept file
+export const LINK_ACTIONS: DuplicateAction[] = [
+  DuplicateAction.HARDLINK,
+  DuplicateAction.SYMLINK,
+  DuplicateAction.REFLINK
+]
+
 export interface DuplicateGroup {
   id: string
   type: DuplicateType
@@ -20,6 +36,34 @@ export interface DuplicateGroup {
   totalSize: number
   potentialSavings: number
   actions: Map<string, DuplicateAction>
+  targetPaths?: Map<string, string> // file path -> move destination / new name
+  similarity?: number // 0-1 for near duplicates, from the least similar file
+  matchReason?: string // why the files were grouped, when it isn't obvious
+  uniqueFiles?: Record<string, string[]> // folder path -> files only it has
+  folderDiff?: FolderDiffNode // merged tree of the group's folders
+  coveredGroups?: number // nested groups hidden because this one explains them
+}
+
+export type FolderDiffStatus = "identical" | "differs" | "missing"
+
+// One entry of the group's folders laid over each other. Directories are
+// identical when everything below them is.
+export interface FolderDiffNode {
+  name: string
+  isDirectory: boolean
+  status: FolderDiffStatus
+  presentIn: boolean[] // per folder, in the order of the group's files
+  children?: FolderDiffNode[]
+}
+
+export interface DetectorOptions {
+  nameMatching?: Partial<NameMatchingOptions>
+  imageSimilarityThreshold?: number // max differing bits between image hashes
+  textSimilarityThreshold?: number // 0-1, minimum share of shared shingles
+  mediaDurationTolerance?: number // seconds two recordings' lengths may differ
+  folderSimilarityThreshold?: number // 0-1, set to report partly copied folders
+  collapseNestedGroups?: boolean // default true
+  detectFolders?: boolean // default true, false skips folder groups entirely
 }
 
 export interface DuplicateStats {
@@ -33,5 +77,17 @@ export interface DuplicateStats {
 export interface ActionPlan {
   duplicateGroup: DuplicateGroup
   selectedActions: Map<string, DuplicateAction>
+  targetPaths: Map<string, string>
   estimatedSavings: number
 }
+
+export interface ActionResult {
+  groupId: string
+  path: string
+  action: DuplicateAction
+  success: boolean
+  newPath?: string
+  operationId?: string
+  error?: string
+  rolledBack?: boolean
+}
@@ -5,16 +5,68 @@ export interface FileMetadata {
   modified: Date
   created: Date
   isDirectory: boolean
-  hash?: string
+  hash?: string // only set for files whose size and partial hash collide
   extension?: string
+  inode?: number
+  perceptualHash?: string // 64-bit image hash, only set for similar image scans
+  minHash?: number[] // text shingle signature, only set for similar text scans
+  media?: MediaInfo // only set for similar media scans
+  root?: string // scan root the file was found under
+  readOnly?: boolean // found under a reference root, never changed
+  archive?: string // archive this file is a member of, "path" is then virtual
+}
+
+export interface MediaInfo {
+  format: "mp3" | "flac" | "mp4" | "wav"
+  durationMs?: number
+  title?: string
+  artist?: string
+  album?: string
+  track?: number
+  fingerprint?: string // 64-bit loudness fingerprint, uncompressed audio only
+}
+
+export type ImageHashAlgorithm = "ahash" | "dhash" | "phash"
+
+export interface ScanRoot {
+  path: string
+  readOnly: boolean // reference "master" copies: compared against, not cleaned
 }
 
 export interface ScanOptions {
   directory: string
+  roots?: ScanRoot[] // defaults to just `directory`
   includeHidden: boolean
   followSymlinks: boolean
   ignorePatterns: string[]
   maxDepth?: number
+  useCache?: boolean
+  maxFileSize?: number // files above this size aren't hashed, 0 = no limit
+  concurrency?: number
+  useWorkerThreads?: boolean
+  imageHashAlgorithm?: ImageHashAlgorithm // set to look for similar images
+  textExtensions?: string[] // set to look for similar text files
+  mediaAnalysis?: { fingerprints: boolean } // set to look for re-encoded media
+  scanArchives?: boolean // list zip and tar members as read-only files
+}
+
+export interface ScanProgress {
+  phase:
+    | "discovering"
+    | "reading-metadata"
+    | "hashing"
+    | "hashing-images"
+    | "hashing-text"
+    | "reading-media"
+    | "reading-archives"
+  filesSeen: number
+  filesHashed: number
+  filesToHash: number
+  bytesHashed: number
+  bytesToHash: number
+  filesFingerprinted: number
+  filesToFingerprint: number
+  etaMs?: number
 }
 
 export interface ScanResult {
@@ -0,0 +1,39 @@
+import { ActionPlan, DuplicateAction } from "./duplicate"
+import { SerializedDuplicateGroup } from "./scan-file"
+
+export const PLAN_FILE_VERSION = 1
+
+// State of a file when the plan was saved, checked again before applying
+export interface FileFingerprint {
+  size: number
+  mtimeMs: number
+  hash: string
+}
+
+export interface SerializedActionPlan {
+  duplicateGroup: SerializedDuplicateGroup
+  selectedActions: Record<string, DuplicateAction>
+  targetPaths: Record<string, string>
+  estimatedSavings: number
+  fingerprints: Record<string, FileFingerprint> // every file of the group
+}
+
+export interface PlanFile {
+  version: number
+  generatedAt: string
+  baseDirectory: string
+  quarantineDirectory?: string
+  plans: SerializedActionPlan[]
+}
+
+export interface LoadedActionPlan extends ActionPlan {
+  fingerprints: Map<string, FileFingerprint>
+}
+
+export interface LoadedPlanFile {
+  version: number
+  generatedAt: Date
+  baseDirectory: string
+  quarantineDirectory?: string
+  plans: LoadedActionPlan[]
+}
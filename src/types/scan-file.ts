@@ -0,0 +1,41 @@
+import { DuplicateAction, DuplicateGroup, DuplicateStats } from "./duplicate"
+import { FileMetadata, ScanOptions, ScanResult } from "./file"
+
+export const SCAN_FILE_VERSION = 1
+
+export type ScanSummary = Omit<ScanResult, "files" | "directories"> & {
+  totalDirectories: number
+}
+
+export interface SerializedFileMetadata
+  extends Omit<FileMetadata, "modified" | "created"> {
+  modified: string
+  created: string
+}
+
+export interface SerializedDuplicateGroup
+  extends Omit<DuplicateGroup, "files" | "actions" | "targetPaths"> {
+  files: SerializedFileMetadata[]
+  actions: Record<string, DuplicateAction> // Maps don't survive JSON
+  targetPaths?: Record<string, string>
+}
+
+export interface ScanFile {
+  version: number
+  generatedAt: string
+  baseDirectory: string
+  options: ScanOptions
+  scan: ScanSummary
+  stats: DuplicateStats
+  duplicateGroups: SerializedDuplicateGroup[]
+}
+
+export interface LoadedScanFile {
+  version: number
+  generatedAt: Date
+  baseDirectory: string
+  options: ScanOptions
+  scan: ScanSummary
+  stats: DuplicateStats
+  duplicateGroups: DuplicateGroup[]
+}
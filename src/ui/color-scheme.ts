@@ -0,0 +1,10 @@
+import chalk from "chalk"
+import { AppConfig } from "../types/config"
+
+export function applyColorScheme(colorScheme: AppConfig["colorScheme"]): void {
+  if (colorScheme === "never") {
+    chalk.level = 0
+  } else if (colorScheme === "always" && chalk.level === 0) {
+    chalk.level = 1
+  }
+}
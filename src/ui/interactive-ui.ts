@@ -1,22 +1,70 @@
+import { resolve } from "path"
 import inquirer from "inquirer"
 import chalk from "chalk"
 import boxen from "boxen"
 import {
+  ActionPlan,
   DuplicateGroup,
   DuplicateAction,
-  DuplicateType
+  DuplicateType,
+  LINK_ACTIONS
 } from "../types/duplicate"
-import { formatFileSize, formatRelativeTime } from "../utils/file-utils"
+import {
+  AppConfig,
+  DEFAULT_CONFIG,
+  DefaultActions,
+  KeepStrategyName
+} from "../types/config"
+import { ScanRoot } from "../types/file"
+import { ActionExecutor } from "../executor/action-executor"
+import {
+  KEEP_STRATEGIES,
+  KEEP_STRATEGY_DESCRIPTIONS,
+  KeeperSelector
+} from "../executor/keep-strategy"
+import {
+  formatFileSize,
+  formatRelativeTime,
+  formatMediaInfo,
+  formatSimilarity
+} from "../utils/file-utils"
+import { FOLDER_DIFF_MARKERS, renderFolderDiff } from "../utils/folder-tree"
+import { Quarantine } from "../utils/quarantine"
+import { serializePlans, writePlanFile } from "../utils/plan-file"
+import { undoSystem } from "../utils/undo-system"
+import { configManager } from "../utils/config"
 import { logger } from "../utils/logger"
 
+// Longer folder trees are cut short to keep the actions on screen
+const FOLDER_DIFF_MAX_LINES = 30
+
+export interface InteractiveUIOptions {
+  dryRun: boolean
+  config: AppConfig
+}
+
 export class InteractiveUI {
   private duplicateGroups: DuplicateGroup[]
   private baseDirectory: string
+  private options: InteractiveUIOptions
   private currentGroupIndex: number = 0
+  private quarantine?: Quarantine
 
-  constructor(duplicateGroups: DuplicateGroup[], baseDirectory: string) {
+  constructor(
+    duplicateGroups: DuplicateGroup[],
+    baseDirectory: string,
+    options: InteractiveUIOptions = { dryRun: false, config: DEFAULT_CONFIG }
+  ) {
     this.duplicateGroups = duplicateGroups
     this.baseDirectory = baseDirectory
+    this.options = options
+
+    if (options.config.quarantineDirectory) {
+      this.quarantine = new Quarantine(
+        options.config.quarantineDirectory,
+        baseDirectory
+      )
+    }
   }
 
   async start(): Promise<void> {
@@ -28,8 +76,21 @@ export class InteractiveUI {
 
     const stats = this.calculateStats()
     const title = chalk.cyan.bold("🔍 Duplicate Finder - Interactive Mode")
+    const roots = this.getRoots()
     const summary = [
-      chalk.gray(`Directory: ${this.baseDirectory}`),
+      ...(roots.length > 1
+        ? [
+            chalk.gray("Roots:"),
+            ...roots.map((root) =>
+              chalk.gray(
+                `  • ${root.path}${root.readOnly ? " (reference)" : ""}`
+              )
+            )
+          ]
+        : [chalk.gray(`Directory: ${this.baseDirectory}`)]),
+      ...(this.options.dryRun
+        ? [chalk.magenta("🧪 Dry run: no files will be changed")]
+        : []),
       "",
       chalk.yellow("📊 Summary:"),
       chalk.white(`• Duplicate groups: ${stats.totalGroups}`),
@@ -50,11 +111,33 @@ export class InteractiveUI {
       })
     )
 
+    const pendingPlans = ActionExecutor.createPlans(this.duplicateGroups)
+
     const choices = [
       {
         name: chalk.cyan("🔍 Browse duplicate groups"),
         value: "browse"
       },
+      {
+        name: chalk.cyan("🤖 Auto-select keepers for all groups"),
+        value: "auto-keep"
+      },
+      {
+        name: chalk.magenta(
+          `👁️  Review & apply selected actions (${pendingPlans.length} groups)`
+        ),
+        value: "apply",
+        disabled: pendingPlans.length === 0
+      },
+      {
+        name: chalk.magenta("💾 Save action plan to file"),
+        value: "save-plan",
+        disabled: pendingPlans.length === 0
+      },
+      {
+        name: chalk.blue("↩️  Undo recent actions"),
+        value: "undo"
+      },
       {
         name: chalk.yellow("📋 Generate report"),
         value: "report"
@@ -82,6 +165,18 @@ export class InteractiveUI {
       case "browse":
         await this.browseDuplicates()
         break
+      case "auto-keep":
+        await this.autoSelectKeepers()
+        break
+      case "apply":
+        await this.previewActions()
+        break
+      case "save-plan":
+        await this.savePlan()
+        break
+      case "undo":
+        await this.showUndoMenu()
+        break
       case "report":
         await this.generateReport()
         break
@@ -126,7 +221,22 @@ export class InteractiveUI {
     )
 
     console.log(chalk.gray(`Type: ${group.type}`))
+    if (group.matchReason) {
+      console.log(chalk.gray(`Why: ${group.matchReason}`))
+    }
+    if (group.similarity !== undefined) {
+      console.log(
+        chalk.yellow(`Similarity: ${formatSimilarity(group.similarity)}`)
+      )
+    }
     console.log(chalk.gray(`Files: ${group.files.length}`))
+    if (group.coveredGroups) {
+      console.log(
+        chalk.gray(
+          `Covers: ${group.coveredGroups} nested group${group.coveredGroups === 1 ? "" : "s"} inside these folders`
+        )
+      )
+    }
     console.log(chalk.gray(`Total size: ${formatFileSize(group.totalSize)}`))
     console.log(
       chalk.green(
@@ -141,12 +251,46 @@ export class InteractiveUI {
       const sizeStr = formatFileSize(file.size)
       const timeStr = formatRelativeTime(file.modified)
 
-      console.log(chalk.white(`${fileIndex + 1}. ${relativePath}`))
+      console.log(
+        chalk.white(`${fileIndex + 1}. ${relativePath}`) +
+          (file.archive
+            ? chalk.blue(" [in archive]")
+            : file.readOnly
+              ? chalk.blue(" [reference]")
+              : "")
+      )
       console.log(chalk.gray(`   ${sizeStr} • Modified ${timeStr}`))
+      if (group.type === DuplicateType.SIMILAR_MEDIA && file.media) {
+        console.log(chalk.gray(`   ${formatMediaInfo(file.media)}`))
+      }
+      const uniqueFiles = group.uniqueFiles?.[file.path]
+      if (uniqueFiles) {
+        const shown = uniqueFiles.slice(0, 5).join(", ")
+        const more =
+          uniqueFiles.length > 5 ? ` (+${uniqueFiles.length - 5} more)` : ""
+        console.log(
+          chalk.yellow(
+            uniqueFiles.length > 0
+              ? `   Only here: ${shown}${more}`
+              : "   Nothing only here"
+          )
+        )
+      }
+      if (file.root && file.root !== this.baseDirectory) {
+        console.log(chalk.gray(`   Root: ${file.root}`))
+      }
     })
 
     console.log()
 
+    if (group.folderDiff) {
+      this.showFolderDiff(group)
+    }
+
+    // Copies found only inside archives can be looked at, not changed
+    const actionable = group.files.some(
+      (file) => !file.archive && !file.readOnly
+    )
     const choices = [
       {
         name: chalk.green("✅ Keep all files"),
@@ -154,12 +298,35 @@ export class InteractiveUI {
       },
       {
         name: chalk.yellow("🎯 Select actions for individual files"),
-        value: "select-individual"
-      },
-      {
-        name: chalk.red("🗑️  Delete all but one"),
-        value: "delete-all-but-one"
+        value: "select-individual",
+        disabled: !actionable && "Read-only group"
       },
+      // Only identical copies can go in bulk, the files of other groups
+      // differ and are removed one by one
+      ...(actionable && isIdenticalGroup(group)
+        ? [
+            {
+              name: chalk.red(
+                this.options.config.defaultDestructiveAction === "trash"
+                  ? "🚮 Trash all but one"
+                  : "🗑️  Delete all but one"
+              ),
+              value: "delete-all-but-one"
+            },
+            {
+              name: chalk.blue("📦 Quarantine all but one"),
+              value: "quarantine-all-but-one"
+            }
+          ]
+        : []),
+      ...(actionable && group.type === DuplicateType.CONTENT_BASED
+        ? [
+            {
+              name: chalk.cyan("🔗 Keep one, link the others to it"),
+              value: "link-all-to-one"
+            }
+          ]
+        : []),
       new inquirer.Separator(),
       {
         name: chalk.blue("⬅️  Previous group"),
@@ -195,7 +362,19 @@ export class InteractiveUI {
         await this.selectIndividualActions(group, index)
         break
       case "delete-all-but-one":
-        await this.deleteAllButOne(group, index)
+        await this.keepOnlyOne(
+          group,
+          index,
+          this.options.config.defaultDestructiveAction === "trash"
+            ? DuplicateAction.TRASH
+            : DuplicateAction.DELETE
+        )
+        break
+      case "quarantine-all-but-one":
+        await this.keepOnlyOne(group, index, DuplicateAction.MOVE)
+        break
+      case "link-all-to-one":
+        await this.keepOnlyOne(group, index, await this.promptLinkAction())
         break
       case "previous":
         await this.showDuplicateGroup(index - 1)
@@ -215,6 +394,13 @@ export class InteractiveUI {
   ): Promise<void> {
     console.clear()
     console.log(chalk.yellow(`🎯 Individual Actions - Group ${groupIndex + 1}`))
+    if (!isIdenticalGroup(group)) {
+      console.log(
+        chalk.red(
+          "⚠️  These files are not identical: removing one loses whatever only it contains"
+        )
+      )
+    }
     console.log()
 
     for (let i = 0; i < group.files.length; i++) {
@@ -223,6 +409,18 @@ export class InteractiveUI {
 
       console.log(chalk.white(`${i + 1}. ${relativePath}`))
 
+      if (file.readOnly || file.archive) {
+        console.log(
+          chalk.blue(
+            file.archive
+              ? "   Inside an archive, kept"
+              : "   In a reference root, kept"
+          )
+        )
+        group.actions.set(file.path, DuplicateAction.KEEP)
+        continue
+      }
+
       const { action } = await inquirer.prompt([
         {
           type: "list",
@@ -231,13 +429,41 @@ export class InteractiveUI {
           choices: [
             { name: chalk.green("✅ Keep"), value: DuplicateAction.KEEP },
             { name: chalk.red("🗑️  Delete"), value: DuplicateAction.DELETE },
+            {
+              name: chalk.red("🚮 Move to trash"),
+              value: DuplicateAction.TRASH
+            },
             { name: chalk.blue("📁 Move"), value: DuplicateAction.MOVE },
-            { name: chalk.yellow("✏️  Rename"), value: DuplicateAction.RENAME }
+            { name: chalk.yellow("✏️  Rename"), value: DuplicateAction.RENAME },
+            ...(group.type === DuplicateType.CONTENT_BASED
+              ? this.linkActionChoices()
+              : [])
           ]
         }
       ])
 
       group.actions.set(file.path, action)
+
+      if (
+        action === DuplicateAction.MOVE ||
+        action === DuplicateAction.RENAME
+      ) {
+        const { target } = await inquirer.prompt([
+          {
+            type: "input",
+            name: "target",
+            message:
+              action === DuplicateAction.MOVE
+                ? "Move to (directory or full path):"
+                : "New name:",
+            validate: (input: string) =>
+              input.trim().length > 0 || "Please enter a value"
+          }
+        ])
+
+        group.targetPaths = group.targetPaths || new Map()
+        group.targetPaths.set(file.path, target.trim())
+      }
     }
 
     console.log(chalk.green("\n✅ Actions set for all files in group"))
@@ -247,33 +473,93 @@ export class InteractiveUI {
     await this.showDuplicateGroup(groupIndex + 1)
   }
 
-  private async deleteAllButOne(
-    group: DuplicateGroup,
-    groupIndex: number
-  ): Promise<void> {
-    const fileChoices = group.files.map((file, index) => ({
-      name: `${file.path.replace(this.baseDirectory, ".")} (${formatFileSize(file.size)})`,
-      value: index
-    }))
+  private linkActionChoices(): { name: string; value: DuplicateAction }[] {
+    return [
+      {
+        name: chalk.cyan("🔗 Hard link to kept file"),
+        value: DuplicateAction.HARDLINK
+      },
+      {
+        name: chalk.cyan("↪️  Symlink to kept file"),
+        value: DuplicateAction.SYMLINK
+      },
+      {
+        name: chalk.cyan("🧬 Reflink (copy-on-write clone) of kept file"),
+        value: DuplicateAction.REFLINK
+      }
+    ]
+  }
 
-    const { keepIndex } = await inquirer.prompt([
+  private async promptLinkAction(): Promise<DuplicateAction> {
+    const { action } = await inquirer.prompt([
       {
         type: "list",
-        name: "keepIndex",
-        message: "Which file would you like to keep?",
-        choices: fileChoices
+        name: "action",
+        message: "How should the other files be linked?",
+        choices: this.linkActionChoices()
       }
     ])
 
-    // Set actions: keep one, delete others
+    return action
+  }
+
+  private async keepOnlyOne(
+    group: DuplicateGroup,
+    groupIndex: number,
+    otherAction: DuplicateAction
+  ): Promise<void> {
+    // Archive members and reference copies are always kept, but only stand
+    // in for a loose copy when they're identical to it
+    const fileChoices = group.files
+      .map((file, index) => ({
+        name: `${file.path.replace(this.baseDirectory, ".")} (${formatFileSize(file.size)})`,
+        value: index
+      }))
+      .filter(
+        ({ value }) =>
+          !group.files[value].archive && !group.files[value].readOnly
+      )
+
+    // Identical reference copies are the ones kept, there's nothing to choose
+    const { keepIndex } =
+      group.type === DuplicateType.CONTENT_BASED &&
+      group.files.some((file) => file.readOnly)
+        ? { keepIndex: -1 }
+        : await inquirer.prompt([
+            {
+              type: "list",
+              name: "keepIndex",
+              message: "Which file would you like to keep?",
+              choices: fileChoices
+            }
+          ])
+
+    // MOVE here means moving the others into the quarantine folder
+    const quarantine =
+      otherAction === DuplicateAction.MOVE
+        ? await this.getQuarantine()
+        : undefined
+
+    // Set actions: keep one, apply the chosen action to the others
     group.files.forEach((file, index) => {
       const action =
-        index === keepIndex ? DuplicateAction.KEEP : DuplicateAction.DELETE
+        index === keepIndex || file.readOnly || file.archive
+          ? DuplicateAction.KEEP
+          : otherAction
       group.actions.set(file.path, action)
+
+      if (quarantine && action === DuplicateAction.MOVE) {
+        group.targetPaths = group.targetPaths || new Map()
+        group.targetPaths.set(file.path, quarantine.targetPathFor(file.path))
+      }
     })
 
     console.log(
-      chalk.green("\n✅ Actions set: keeping one file, deleting others")
+      chalk.green(
+        quarantine
+          ? `\n✅ Actions set: keeping one file, quarantining the others in ${quarantine.directory}`
+          : `\n✅ Actions set: keeping one file, ${otherAction} for the others`
+      )
     )
     console.log(chalk.gray("Press any key to continue..."))
     await inquirer.prompt([{ type: "input", name: "continue", message: "" }])
@@ -281,6 +567,127 @@ export class InteractiveUI {
     await this.showDuplicateGroup(groupIndex + 1)
   }
 
+  private async autoSelectKeepers(): Promise<void> {
+    console.clear()
+    console.log(chalk.cyan("🤖 Auto-select Keepers\n"))
+
+    const defaults = this.options.config.defaultActions
+    const { strategy } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "strategy",
+        message: "Which copy should be kept in every group?",
+        choices: KEEP_STRATEGIES.map((name) => ({
+          name: `${name} - ${KEEP_STRATEGY_DESCRIPTIONS[name]}`,
+          value: name
+        })),
+        default: defaults.keepStrategy?.[0]
+      }
+    ])
+
+    let preferredPrefixes = defaults.preferredPrefixes || []
+    if (strategy === "preferred-prefix" && preferredPrefixes.length === 0) {
+      const { prefixes } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "prefixes",
+          message: "Preferred folders, best first (comma-separated):",
+          validate: (input: string) =>
+            input.trim().length > 0 || "Please enter at least one folder"
+        }
+      ])
+      preferredPrefixes = prefixes
+        .split(",")
+        .map((prefix: string) => prefix.trim())
+        .filter(Boolean)
+    }
+
+    const { removeAction } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "removeAction",
+        message: "What should happen to the other copies?",
+        choices: [
+          { name: chalk.red("🗑️  Delete"), value: DuplicateAction.DELETE },
+          { name: chalk.red("🚮 Move to trash"), value: DuplicateAction.TRASH },
+          { name: chalk.blue("📦 Quarantine"), value: DuplicateAction.MOVE }
+        ],
+        default:
+          this.options.config.defaultDestructiveAction === "trash"
+            ? DuplicateAction.TRASH
+            : DuplicateAction.DELETE
+      }
+    ])
+
+    const keepDefaults: DefaultActions = {
+      ...defaults,
+      keepStrategy: [strategy as KeepStrategyName],
+      preferredPrefixes
+    }
+    const quarantine =
+      removeAction === DuplicateAction.MOVE
+        ? await this.getQuarantine()
+        : undefined
+
+    const selected = new KeeperSelector(keepDefaults).apply(
+      this.duplicateGroups,
+      removeAction,
+      quarantine && ((path) => quarantine.targetPathFor(path))
+    )
+    console.log(
+      chalk.green(
+        `\n✅ Keepers selected for ${selected} groups of identical files, review them before applying`
+      )
+    )
+
+    const { save } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "save",
+        message: "Save this as the default keep strategy?",
+        default: false
+      }
+    ])
+    if (save) {
+      try {
+        await configManager.save({ defaultActions: keepDefaults })
+        this.options.config.defaultActions = keepDefaults
+        console.log(chalk.green("✅ Keep strategy saved"))
+      } catch (error) {
+        logger.error("Failed to save keep strategy", { error })
+        console.log(
+          chalk.red(
+            `❌ ${error instanceof Error ? error.message : "Unknown error"}`
+          )
+        )
+      }
+    }
+
+    console.log(chalk.gray("Press any key to continue..."))
+    await inquirer.prompt([{ type: "input", name: "continue", message: "" }])
+    await this.showMainMenu()
+  }
+
+  private async getQuarantine(): Promise<Quarantine> {
+    if (this.quarantine) {
+      return this.quarantine
+    }
+
+    const { directory } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "directory",
+        message: "Quarantine folder for removed duplicates:",
+        default: `${this.baseDirectory}-quarantine`,
+        validate: (input: string) =>
+          input.trim().length > 0 || "Please enter a folder"
+      }
+    ])
+
+    this.quarantine = new Quarantine(directory.trim(), this.baseDirectory)
+    return this.quarantine
+  }
+
   private async setGroupAction(
     group: DuplicateGroup,
     action: DuplicateAction
@@ -290,13 +697,351 @@ export class InteractiveUI {
     })
   }
 
+  private async previewActions(): Promise<void> {
+    console.clear()
+
+    const plans = ActionExecutor.createPlans(this.duplicateGroups)
+    const title = this.options.dryRun
+      ? "👁️  Pending Actions (dry run)"
+      : "👁️  Pending Actions"
+
+    console.log(
+      boxen(chalk.yellow(title), {
+        padding: { top: 0, bottom: 0, left: 1, right: 1 },
+        borderStyle: "round",
+        borderColor: "yellow"
+      })
+    )
+
+    const countsByAction = new Map<DuplicateAction, number>()
+    let reclaimedBytes = 0
+    const refusals = await ActionExecutor.checkPlans(plans)
+
+    plans.forEach((plan, planIndex) => {
+      const group = plan.duplicateGroup
+      console.log(
+        chalk.cyan(
+          `\n${this.getTypeIcon(group.type)} Group ${planIndex + 1} (${group.type})`
+        )
+      )
+
+      const refusal = refusals.get(plan)
+      if (refusal) {
+        console.log(chalk.red(`  ⛔ Refused: ${refusal}`))
+      }
+
+      for (const file of group.files) {
+        const relativePath = file.path.replace(this.baseDirectory, ".")
+        const action = plan.selectedActions.get(file.path)
+
+        if (!action) {
+          console.log(chalk.green(`  KEEP     ${relativePath}`))
+          continue
+        }
+
+        const target = plan.targetPaths.get(file.path)
+        const destination = target ? chalk.gray(` → ${target}`) : ""
+        const label = action.toUpperCase().padEnd(8)
+        const color =
+          action === DuplicateAction.DELETE || action === DuplicateAction.TRASH
+            ? chalk.red
+            : LINK_ACTIONS.includes(action)
+              ? chalk.cyan
+              : chalk.blue
+
+        console.log(
+          color(`  ${label} ${relativePath} (${formatFileSize(file.size)})`) +
+            destination
+        )
+        if (!refusal) {
+          countsByAction.set(action, (countsByAction.get(action) || 0) + 1)
+        }
+      }
+
+      if (!refusal) {
+        reclaimedBytes += plan.estimatedSavings
+      }
+    })
+
+    console.log(chalk.yellow("\n📊 Totals:"))
+    for (const [action, count] of countsByAction) {
+      console.log(chalk.white(`• ${action}: ${count} files`))
+    }
+    console.log(
+      chalk.green(`• Space reclaimed: ${formatFileSize(reclaimedBytes)}`)
+    )
+    if (refusals.size > 0) {
+      console.log(
+        chalk.red(
+          `• Refused: ${refusals.size} groups, change their actions before applying`
+        )
+      )
+    }
+    console.log()
+
+    const { decision } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "decision",
+        message: "Proceed with these actions?",
+        choices: [
+          this.options.dryRun
+            ? {
+                name: chalk.magenta("🧪 Simulate (dry run, no changes)"),
+                value: "apply"
+              }
+            : { name: chalk.red("✅ Apply these changes"), value: "apply" },
+          { name: chalk.gray("⬅️  Back to main menu"), value: "back" }
+        ]
+      }
+    ])
+
+    if (decision === "apply" && (await this.confirmApply(plans))) {
+      await this.applyActions(plans)
+      return
+    }
+
+    await this.showMainMenu()
+  }
+
+  private async savePlan(): Promise<void> {
+    const { outputPath } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "outputPath",
+        message: "Plan file path:",
+        default: "./duplicate-plan.json"
+      }
+    ])
+
+    try {
+      console.log(chalk.yellow("\n💾 Fingerprinting files..."))
+      const plans = ActionExecutor.createPlans(this.duplicateGroups)
+      const outputFile = resolve(outputPath)
+      await writePlanFile(
+        outputFile,
+        await serializePlans(
+          plans,
+          this.baseDirectory,
+          this.quarantine?.directory
+        )
+      )
+
+      console.log(
+        chalk.green(
+          `✅ Plan with ${plans.length} groups saved to ${outputFile}`
+        )
+      )
+      console.log(
+        chalk.gray(
+          `💡 Apply it later with "duplicates-finder apply ${outputPath}"`
+        )
+      )
+    } catch (error) {
+      logger.error("Failed to save action plan", { error })
+      console.log(
+        chalk.red(
+          `❌ Failed to save plan: ${error instanceof Error ? error.message : "Unknown error"}`
+        )
+      )
+    }
+
+    console.log(chalk.gray("\nPress any key to continue..."))
+    await inquirer.prompt([{ type: "input", name: "continue", message: "" }])
+    await this.showMainMenu()
+  }
+
+  private async confirmApply(plans: ActionPlan[]): Promise<boolean> {
+    if (this.options.dryRun || !this.options.config.confirmDestructiveActions) {
+      return true
+    }
+
+    const actionCount = plans.reduce(
+      (sum, plan) => sum + plan.selectedActions.size,
+      0
+    )
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmed",
+        message: `This changes ${actionCount} files on disk. Are you sure?`,
+        default: false
+      }
+    ])
+
+    return confirmed
+  }
+
+  private async applyActions(plans: ActionPlan[]): Promise<void> {
+    const dryRun = this.options.dryRun
+    console.log(
+      chalk.yellow(
+        dryRun ? "\n🧪 Simulating actions...\n" : "\n▶️  Applying actions...\n"
+      )
+    )
+
+    const executor = new ActionExecutor({
+      enableUndo: this.options.config.enableUndo,
+      dryRun,
+      transactional: true,
+      quarantine: this.quarantine
+    })
+    const results = await executor.execute(plans, (result) => {
+      const relativePath = result.path.replace(this.baseDirectory, ".")
+      if (result.success) {
+        const destination = result.newPath
+          ? ` → ${result.newPath.replace(this.baseDirectory, ".")}`
+          : ""
+        console.log(
+          chalk.green(`✅ ${result.action}: ${relativePath}${destination}`)
+        )
+      } else {
+        console.log(
+          chalk.red(`❌ ${result.action}: ${relativePath} (${result.error})`)
+        )
+      }
+    })
+
+    // Drop files that have been deleted, moved or linked
+    const processedPaths = new Set(
+      dryRun
+        ? []
+        : results.filter((r) => r.success && !r.rolledBack).map((r) => r.path)
+    )
+    for (const group of this.duplicateGroups) {
+      group.files = group.files.filter((f) => !processedPaths.has(f.path))
+      processedPaths.forEach((path) => {
+        group.actions.delete(path)
+        group.targetPaths?.delete(path)
+      })
+    }
+    this.duplicateGroups = this.duplicateGroups.filter(
+      (group) => group.files.length > 1
+    )
+    this.currentGroupIndex = 0
+
+    const failed = results.filter((r) => !r.success).length
+    console.log(
+      chalk.white(`\n📊 ${results.length - failed} succeeded, ${failed} failed`)
+    )
+    if (dryRun) {
+      console.log(chalk.magenta("🧪 Dry run: no files were changed"))
+    }
+
+    if (!dryRun && this.options.config.enableUndo) {
+      await undoSystem.collectGarbage({
+        maxAgeDays: this.options.config.backupRetentionDays,
+        maxTotalSize: this.options.config.backupMaxSize
+      })
+    }
+
+    const rolledBack = results.filter((r) => r.rolledBack).length
+    if (rolledBack > 0) {
+      console.log(
+        chalk.yellow(
+          `↩️  An action failed, so the ${rolledBack} actions applied before it were rolled back`
+        )
+      )
+    }
+
+    console.log(chalk.gray("\nPress any key to continue..."))
+    await inquirer.prompt([{ type: "input", name: "continue", message: "" }])
+    await this.showMainMenu()
+  }
+
+  private async showUndoMenu(): Promise<void> {
+    console.clear()
+    console.log(chalk.blue("↩️  Undo Recent Actions\n"))
+
+    await undoSystem.initialize()
+    const [lastSession] = await undoSystem.getSessions()
+    const operations = await undoSystem.getRecentOperations(20)
+
+    if (operations.length === 0) {
+      console.log(chalk.gray("No recorded operations to undo"))
+      console.log(chalk.gray("\nPress any key to continue..."))
+      await inquirer.prompt([{ type: "input", name: "continue", message: "" }])
+      await this.showMainMenu()
+      return
+    }
+
+    const { mode } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "mode",
+        message: "What would you like to undo?",
+        choices: [
+          ...(lastSession
+            ? [
+                {
+                  name: chalk.yellow(
+                    `⏪ Last apply session (${lastSession.operationCount} operations, ${formatRelativeTime(lastSession.startedAt)})`
+                  ),
+                  value: "session"
+                }
+              ]
+            : []),
+          {
+            name: chalk.cyan("🎯 Select individual operations"),
+            value: "select"
+          },
+          { name: chalk.gray("⬅️  Back to main menu"), value: "back" }
+        ]
+      }
+    ])
+
+    let result
+    if (mode === "session") {
+      result = await undoSystem.undoSession(lastSession.sessionId)
+    } else if (mode === "select") {
+      const { selected } = await inquirer.prompt([
+        {
+          type: "checkbox",
+          name: "selected",
+          message: "Operations to undo:",
+          choices: operations.map((op) => ({
+            name: `${op.action.toUpperCase()} ${op.originalPath.replace(this.baseDirectory, ".")} (${formatRelativeTime(op.timestamp)})`,
+            value: op.id
+          }))
+        }
+      ])
+
+      result = { undone: [] as string[], failed: [] as string[] }
+      for (const operationId of selected as string[]) {
+        if (await undoSystem.undoOperation(operationId)) {
+          result.undone.push(operationId)
+        } else {
+          result.failed.push(operationId)
+        }
+      }
+    }
+
+    if (result) {
+      console.log(chalk.green(`\n✅ Undone ${result.undone.length} operations`))
+      if (result.failed.length > 0) {
+        console.log(
+          chalk.red(`❌ Failed to undo ${result.failed.length} operations`)
+        )
+      }
+      console.log(
+        chalk.gray(
+          "Restored files are not added back to the duplicate groups until the next scan."
+        )
+      )
+      console.log(chalk.gray("\nPress any key to continue..."))
+      await inquirer.prompt([{ type: "input", name: "continue", message: "" }])
+    }
+
+    await this.showMainMenu()
+  }
+
   private async generateReport(): Promise<void> {
     const { outputPath } = await inquirer.prompt([
       {
         type: "input",
         name: "outputPath",
         message: "Report output path:",
-        default: "./duplicate-report.md"
+        default: this.options.config.reportOutputPath
       }
     ])
 
@@ -328,6 +1073,45 @@ export class InteractiveUI {
     await this.showMainMenu()
   }
 
+  // The group's folders as trees side by side, differences highlighted
+  private showFolderDiff(group: DuplicateGroup): void {
+    const labels = group.files.map((file) =>
+      file.path.replace(this.baseDirectory, ".")
+    )
+    const terminalWidth = process.stdout.columns || 80
+    const columnWidth = Math.min(
+      50,
+      Math.max(20, Math.floor((terminalWidth - 2) / labels.length) - 2)
+    )
+
+    const lines = renderFolderDiff(group.folderDiff!, labels, {
+      columnWidth,
+      maxLines: FOLDER_DIFF_MAX_LINES,
+      // Exact copies are identical throughout, so their tree is shown whole
+      collapseIdentical: group.type !== DuplicateType.FOLDER_BASED
+    })
+
+    for (const line of lines) {
+      if (line.status === "missing") {
+        console.log(chalk.red(line.text))
+      } else if (line.status === "differs") {
+        console.log(chalk.yellow(line.text))
+      } else if (line.status === "identical") {
+        console.log(chalk.gray(line.text))
+      } else {
+        console.log(chalk.bold(line.text))
+      }
+    }
+    console.log(
+      chalk.gray(
+        `${FOLDER_DIFF_MARKERS.identical} identical  ` +
+          `${FOLDER_DIFF_MARKERS.differs} differs  ` +
+          `${FOLDER_DIFF_MARKERS.missing} missing from a folder`
+      )
+    )
+    console.log()
+  }
+
   private getTypeIcon(type: DuplicateType): string {
     switch (type) {
       case DuplicateType.NAME_BASED:
@@ -336,11 +1120,36 @@ export class InteractiveUI {
         return "🔍"
       case DuplicateType.FOLDER_BASED:
         return "📁"
+      case DuplicateType.SIMILAR_IMAGE:
+        return "🖼️ "
+      case DuplicateType.SIMILAR_TEXT:
+        return "📃"
+      case DuplicateType.SIMILAR_MEDIA:
+        return "🎵"
+      case DuplicateType.SIMILAR_FOLDER:
+        return "📂"
       default:
         return "📄"
     }
   }
 
+  // Roots as recorded on the scanned files, so saved scans show them too
+  private getRoots(): ScanRoot[] {
+    const roots = new Map<string, boolean>()
+    for (const group of this.duplicateGroups) {
+      for (const file of group.files) {
+        // Archive members are read-only wherever the archive is
+        if (file.root && !file.archive) {
+          roots.set(file.root, file.readOnly || false)
+        }
+      }
+    }
+
+    return Array.from(roots, ([path, readOnly]) => ({ path, readOnly })).sort(
+      (a, b) => Number(a.readOnly) - Number(b.readOnly)
+    )
+  }
+
   private calculateStats() {
     const totalGroups = this.duplicateGroups.length
     let totalFiles = 0
@@ -356,3 +1165,11 @@ export class InteractiveUI {
     return { totalGroups, totalFiles, totalSize, potentialSavings }
   }
 }
+
+// Groups whose files all hold the same content
+function isIdenticalGroup(group: DuplicateGroup): boolean {
+  return (
+    group.type === DuplicateType.CONTENT_BASED ||
+    group.type === DuplicateType.FOLDER_BASED
+  )
+}
@@ -0,0 +1,39 @@
+import { ScanProgress } from "../types/file"
+import { formatFileSize } from "../utils/file-utils"
+
+export function formatScanProgress(progress: ScanProgress): string {
+  switch (progress.phase) {
+    case "discovering":
+      return `Discovering files... ${progress.filesSeen} found`
+    case "reading-metadata":
+      return `Reading metadata for ${progress.filesSeen} files...`
+    case "hashing": {
+      const eta =
+        progress.etaMs !== undefined
+          ? ` • ETA ${formatDuration(progress.etaMs)}`
+          : ""
+      return (
+        `Hashing ${progress.filesHashed}/${progress.filesToHash} files ` +
+        `(${formatFileSize(progress.bytesHashed)} of ${formatFileSize(progress.bytesToHash)})${eta}`
+      )
+    }
+    case "hashing-images":
+      return `Comparing images ${progress.filesFingerprinted}/${progress.filesToFingerprint}...`
+    case "reading-archives":
+      return `Reading archives ${progress.filesFingerprinted}/${progress.filesToFingerprint}...`
+    case "reading-media":
+      return `Reading media tags ${progress.filesFingerprinted}/${progress.filesToFingerprint}...`
+    case "hashing-text":
+      return `Comparing text files ${progress.filesFingerprinted}/${progress.filesToFingerprint}...`
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
@@ -0,0 +1,237 @@
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { deflateRawSync, gzipSync } from "zlib"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { readArchiveMembers } from "./archive-reader"
+
+const sha256 = (content: string | Buffer) =>
+  createHash("sha256").update(content).digest("hex")
+
+// One ustar header block followed by the content padded to whole blocks
+function tarEntry(name: string, content: string | Buffer, type = "0"): Buffer {
+  const data = Buffer.from(content)
+  const header = Buffer.alloc(512)
+  header.write(name, 0, 100, "utf-8")
+  header.write("0000644\0", 100)
+  header.write("0000000\0", 108)
+  header.write("0000000\0", 116)
+  header.write(data.length.toString(8).padStart(11, "0") + "\0", 124)
+  header.write("14000000000\0", 136)
+  header.write(type, 156)
+  header.write("ustar\0", 257)
+  header.write("00", 263)
+
+  header.fill(0x20, 148, 156)
+  const checksum = header.reduce((sum, byte) => sum + byte, 0)
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148)
+
+  const padding = (512 - (data.length % 512)) % 512
+  return Buffer.concat([header, data, Buffer.alloc(padding)])
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`
+  let length = body.length
+  while (`${length}${body}`.length !== length) {
+    length = `${length}${body}`.length
+  }
+  return `${length}${body}`
+}
+
+function tarArchive(...entries: Buffer[]): Buffer {
+  return Buffer.concat([...entries, Buffer.alloc(1024)])
+}
+
+// Zip with one local header per entry and a central directory. CRCs are left
+// at zero, the reader doesn't check them.
+function zipArchive(
+  entries: { name: string; content: string; deflate?: boolean }[]
+): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name)
+    const raw = Buffer.from(entry.content)
+    const data = entry.deflate ? deflateRawSync(raw) : raw
+    const method = entry.deflate ? 8 : 0
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x800, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x800, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(0x21, 14) // 1980-01-01
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, name, data)
+    centrals.push(central, name)
+    offset += local.length + name.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+describe("readArchiveMembers", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), "archive-reader-"))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  const write = async (name: string, data: Buffer) => {
+    const path = join(directory, name)
+    await fs.writeFile(path, data)
+    return path
+  }
+
+  it("lists and hashes the regular files of a tar", async () => {
+    const path = await write(
+      "backup.tar",
+      tarArchive(
+        tarEntry("docs/", "", "5"),
+        tarEntry("docs/a.txt", "hello"),
+        tarEntry("./docs/empty.txt", ""),
+        tarEntry("docs/link", "", "2")
+      )
+    )
+
+    const members = await readArchiveMembers(path)
+    expect(
+      members.map(({ path, size, hash }) => ({ path, size, hash }))
+    ).toEqual([
+      { path: "docs/a.txt", size: 5, hash: sha256("hello") },
+      { path: "docs/empty.txt", size: 0, hash: sha256("") }
+    ])
+    expect(members[0].modified).toEqual(new Date(0o14000000000 * 1000))
+  })
+
+  it("reads gzipped tars the same way", async () => {
+    const tar = tarArchive(tarEntry("a.txt", "x".repeat(2000)))
+    const path = await write("backup.tgz", gzipSync(tar))
+
+    expect(await readArchiveMembers(path)).toMatchObject([
+      { path: "a.txt", size: 2000, hash: sha256("x".repeat(2000)) }
+    ])
+  })
+
+  it("takes long names from GNU and pax headers", async () => {
+    const longName = `${"nested/".repeat(20)}file.txt`
+    const path = await write(
+      "long.tar",
+      tarArchive(
+        tarEntry("././@LongLink", `${longName}\0`, "L"),
+        tarEntry(longName.slice(0, 99), "gnu"),
+        tarEntry("PaxHeader", paxRecord("path", `pax/${longName}`), "x"),
+        tarEntry("pax/truncated", "pax"),
+        tarEntry("short.txt", "plain")
+      )
+    )
+
+    expect((await readArchiveMembers(path)).map((m) => m.path)).toEqual([
+      longName,
+      `pax/${longName}`,
+      "short.txt"
+    ])
+  })
+
+  it("ignores pax records whose length runs past the header", async () => {
+    const path = await write(
+      "broken-pax.tar",
+      tarArchive(
+        tarEntry("PaxHeader", "999 path=elsewhere\n", "x"),
+        tarEntry("kept.txt", "x")
+      )
+    )
+
+    expect((await readArchiveMembers(path)).map((m) => m.path)).toEqual([
+      "kept.txt"
+    ])
+  })
+
+  it("leaves members above the size limit unhashed", async () => {
+    const path = await write(
+      "big.tar",
+      tarArchive(tarEntry("small.txt", "a"), tarEntry("big.txt", "abcdef"))
+    )
+
+    const members = await readArchiveMembers(path, 3)
+    expect(members[0].hash).toBe(sha256("a"))
+    expect(members[1]).toMatchObject({ path: "big.txt", size: 6 })
+    expect(members[1].hash).toBeUndefined()
+  })
+
+  it("rejects truncated and foreign tars", async () => {
+    const full = tarEntry("a.txt", "x".repeat(1000))
+    const truncated = await write("truncated.tar", full.subarray(0, 700))
+    const foreign = await write("foreign.tar", Buffer.alloc(512, 1))
+
+    await expect(readArchiveMembers(truncated)).rejects.toThrow(
+      "Truncated tar archive"
+    )
+    await expect(readArchiveMembers(foreign)).rejects.toThrow(
+      "Not a tar archive"
+    )
+  })
+
+  it("lists and hashes stored and deflated zip entries", async () => {
+    const path = await write(
+      "bundle.jar",
+      zipArchive([
+        { name: "META-INF/", content: "" },
+        { name: "stored.txt", content: "stored" },
+        { name: "dir/deflated.txt", content: "d".repeat(5000), deflate: true }
+      ])
+    )
+
+    const members = await readArchiveMembers(path)
+    expect(
+      members.map(({ path, size, hash }) => ({ path, size, hash }))
+    ).toEqual([
+      { path: "stored.txt", size: 6, hash: sha256("stored") },
+      {
+        path: "dir/deflated.txt",
+        size: 5000,
+        hash: sha256("d".repeat(5000))
+      }
+    ])
+    expect(members[0].modified).toEqual(new Date(1980, 0, 1))
+  })
+
+  it("rejects files that aren't zips", async () => {
+    const path = await write("fake.zip", Buffer.from("not a zip at all"))
+    await expect(readArchiveMembers(path)).rejects.toThrow("Not a zip archive")
+  })
+
+  it("returns nothing for other file types", async () => {
+    const path = await write("notes.txt", Buffer.from("text"))
+    expect(await readArchiveMembers(path)).toEqual([])
+  })
+})
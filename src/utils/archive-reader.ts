@@ -0,0 +1,475 @@
+import { createHash } from "crypto"
+import { createReadStream, promises as fs } from "fs"
+import { Readable } from "stream"
+import { createGunzip, createInflateRaw } from "zlib"
+import { FileMetadata } from "../types/file"
+
+type FileHandle = fs.FileHandle
+
+// Archive members are addressed like Java resources: "backup.zip!/docs/a.txt"
+export const ARCHIVE_MEMBER_SEPARATOR = "!/"
+
+export interface ArchiveMember {
+  path: string // relative to the archive root, "/"-separated
+  size: number
+  modified: Date
+  hash?: string // sha256 of the uncompressed content, unset above the limit
+}
+
+type ArchiveFormat = "zip" | "tar" | "tar.gz"
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP64_END_LOCATOR = 0x07064b50
+const ZIP_CENTRAL_FILE_HEADER = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+// End record plus the longest possible archive comment
+const ZIP_TAIL_SEARCH_BYTES = 22 + 0xffff
+// A central directory this large means the archive is broken
+const MAX_CENTRAL_DIRECTORY_SIZE = 64 * 1024 * 1024
+
+const TAR_BLOCK_SIZE = 512
+
+export function isArchive(file: FileMetadata): boolean {
+  return archiveFormat(file.name) !== undefined
+}
+
+export function archiveMemberPath(archivePath: string, member: string): string {
+  return archivePath + ARCHIVE_MEMBER_SEPARATOR + member
+}
+
+// Lists the regular files inside a zip, jar or (gzipped) tar archive and
+// hashes their content as it streams by. Nothing is extracted to disk.
+export async function readArchiveMembers(
+  archivePath: string,
+  maxMemberSize: number = Infinity
+): Promise<ArchiveMember[]> {
+  const format = archiveFormat(archivePath)
+  if (format === "zip") {
+    return readZip(archivePath, maxMemberSize)
+  }
+  if (format === "tar" || format === "tar.gz") {
+    return readTar(archivePath, format === "tar.gz", maxMemberSize)
+  }
+  return []
+}
+
+function archiveFormat(name: string): ArchiveFormat | undefined {
+  const lower = name.toLowerCase()
+  if (lower.endsWith(".zip") || lower.endsWith(".jar")) return "zip"
+  if (lower.endsWith(".tar")) return "tar"
+  if (lower.endsWith(".tar.gz") || lower.endsWith(".tgz")) return "tar.gz"
+  return undefined
+}
+
+async function hashStream(stream: Readable): Promise<string> {
+  const hash = createHash("sha256")
+  for await (const chunk of stream) {
+    hash.update(chunk)
+  }
+  return hash.digest("hex")
+}
+
+function cleanMemberPath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^(?:\.?\/)+/, "")
+}
+
+async function readAt(
+  handle: FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> {
+  const buffer = Buffer.alloc(Math.max(0, length))
+  const { bytesRead } = await handle.read(buffer, 0, buffer.length, position)
+  return buffer.subarray(0, bytesRead)
+}
+
+interface ZipEntry {
+  path: string
+  method: number
+  compressedSize: number
+  size: number
+  localHeaderOffset: number
+  modified: Date
+}
+
+async function readZip(
+  archivePath: string,
+  maxMemberSize: number
+): Promise<ArchiveMember[]> {
+  const handle = await fs.open(archivePath, "r")
+  try {
+    const entries = await readZipDirectory(handle)
+    const members: ArchiveMember[] = []
+
+    for (const entry of entries) {
+      const member: ArchiveMember = {
+        path: entry.path,
+        size: entry.size,
+        modified: entry.modified
+      }
+      if (entry.size <= maxMemberSize) {
+        member.hash = await hashZipEntry(handle, archivePath, entry)
+      }
+      members.push(member)
+    }
+    return members
+  } finally {
+    await handle.close()
+  }
+}
+
+async function readZipDirectory(handle: FileHandle): Promise<ZipEntry[]> {
+  const { size } = await handle.stat()
+  const tailStart = Math.max(0, size - ZIP_TAIL_SEARCH_BYTES)
+  const tail = await readAt(handle, tailStart, size - tailStart)
+
+  let end = -1
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) {
+    throw new Error("Not a zip archive")
+  }
+
+  let entryCount = tail.readUInt16LE(end + 10)
+  let directorySize = tail.readUInt32LE(end + 12)
+  let directoryOffset = tail.readUInt32LE(end + 16)
+
+  // Archives over 4GB or 65535 entries keep the real values in a zip64 record
+  const locator = end - 20
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_END_LOCATOR) {
+    const recordOffset = Number(tail.readBigUInt64LE(locator + 8))
+    const record = await readAt(handle, recordOffset, 56)
+    entryCount = Number(record.readBigUInt64LE(32))
+    directorySize = Number(record.readBigUInt64LE(40))
+    directoryOffset = Number(record.readBigUInt64LE(48))
+  }
+
+  if (directorySize > MAX_CENTRAL_DIRECTORY_SIZE) {
+    throw new Error("Zip central directory is too large")
+  }
+  const directory = await readAt(handle, directoryOffset, directorySize)
+
+  const entries: ZipEntry[] = []
+  let offset = 0
+  for (let i = 0; i < entryCount && offset + 46 <= directory.length; i++) {
+    if (directory.readUInt32LE(offset) !== ZIP_CENTRAL_FILE_HEADER) {
+      throw new Error("Corrupt zip central directory")
+    }
+
+    const flags = directory.readUInt16LE(offset + 8)
+    const method = directory.readUInt16LE(offset + 10)
+    const time = directory.readUInt16LE(offset + 12)
+    const date = directory.readUInt16LE(offset + 14)
+    let compressedSize = directory.readUInt32LE(offset + 20)
+    let size = directory.readUInt32LE(offset + 24)
+    const nameLength = directory.readUInt16LE(offset + 28)
+    const extraLength = directory.readUInt16LE(offset + 30)
+    const commentLength = directory.readUInt16LE(offset + 32)
+    let localHeaderOffset = directory.readUInt32LE(offset + 42)
+
+    const nameStart = offset + 46
+    const rawName = directory.subarray(nameStart, nameStart + nameLength)
+    // Bit 11 marks UTF-8 names, older tools wrote the DOS code page
+    const path = cleanMemberPath(
+      rawName.toString(flags & 0x800 ? "utf-8" : "latin1")
+    )
+
+    // The zip64 extra field holds whichever sizes overflowed, in this order
+    const extra = directory.subarray(
+      nameStart + nameLength,
+      nameStart + nameLength + extraLength
+    )
+    for (let e = 0; e + 4 <= extra.length; ) {
+      const id = extra.readUInt16LE(e)
+      const length = extra.readUInt16LE(e + 2)
+      if (id === 0x0001) {
+        let field = e + 4
+        if (size === 0xffffffff) {
+          size = Number(extra.readBigUInt64LE(field))
+          field += 8
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(extra.readBigUInt64LE(field))
+          field += 8
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = Number(extra.readBigUInt64LE(field))
+        }
+      }
+      e += 4 + length
+    }
+
+    offset = nameStart + nameLength + extraLength + commentLength
+
+    // Directories, encrypted entries and exotic compression are skipped
+    const encrypted = (flags & 0x1) !== 0
+    if (
+      !path ||
+      path.endsWith("/") ||
+      encrypted ||
+      (method !== 0 && method !== 8)
+    ) {
+      continue
+    }
+
+    entries.push({
+      path,
+      method,
+      compressedSize,
+      size,
+      localHeaderOffset,
+      modified: new Date(
+        (date >> 9) + 1980,
+        ((date >> 5) & 0xf) - 1,
+        date & 0x1f,
+        time >> 11,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+      )
+    })
+  }
+  return entries
+}
+
+async function hashZipEntry(
+  handle: FileHandle,
+  archivePath: string,
+  entry: ZipEntry
+): Promise<string> {
+  const header = await readAt(handle, entry.localHeaderOffset, 30)
+  if (header.length < 30 || header.readUInt32LE(0) !== ZIP_LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip entry ${entry.path}`)
+  }
+
+  // The local header's name and extra field can differ from the central one
+  const dataStart =
+    entry.localHeaderOffset +
+    30 +
+    header.readUInt16LE(26) +
+    header.readUInt16LE(28)
+  if (entry.compressedSize === 0) {
+    return hashStream(Readable.from([]))
+  }
+
+  const data = createReadStream(archivePath, {
+    start: dataStart,
+    end: dataStart + entry.compressedSize - 1
+  })
+  if (entry.method === 0) {
+    return hashStream(data)
+  }
+
+  const inflate = createInflateRaw()
+  data.on("error", (error) => inflate.destroy(error))
+  return hashStream(data.pipe(inflate))
+}
+
+interface TarEntry {
+  type: string
+  path: string
+  size: number
+  modified: Date
+  remaining: number
+  hash?: ReturnType<typeof createHash>
+  chunks?: Buffer[] // long names and pax headers are collected
+}
+
+async function readTar(
+  archivePath: string,
+  gzipped: boolean,
+  maxMemberSize: number
+): Promise<ArchiveMember[]> {
+  const file = createReadStream(archivePath)
+  let source: Readable = file
+  if (gzipped) {
+    const gunzip = createGunzip()
+    file.on("error", (error) => gunzip.destroy(error))
+    source = file.pipe(gunzip)
+  }
+
+  const members: ArchiveMember[] = []
+  let header = Buffer.alloc(0)
+  let entry: TarEntry | undefined
+  let padding = 0
+  // Set by a GNU long name or pax header for the entry that follows it
+  let nextPath: string | undefined
+  let finished = false
+
+  const finishEntry = (done: TarEntry) => {
+    if (done.type === "L") {
+      nextPath = cString(Buffer.concat(done.chunks!))
+    } else if (done.type === "x") {
+      nextPath = parsePaxPath(Buffer.concat(done.chunks!)) ?? nextPath
+    } else if (isRegularTarEntry(done.type)) {
+      members.push({
+        path: done.path,
+        size: done.size,
+        modified: done.modified,
+        ...(done.hash && { hash: done.hash.digest("hex") })
+      })
+    }
+  }
+
+  try {
+    for await (const chunk of source) {
+      let data: Buffer = chunk
+      while (data.length > 0 && !finished) {
+        if (padding > 0) {
+          const skipped = Math.min(padding, data.length)
+          padding -= skipped
+          data = data.subarray(skipped)
+          continue
+        }
+
+        if (entry) {
+          const part = data.subarray(0, entry.remaining)
+          entry.hash?.update(part)
+          entry.chunks?.push(part)
+          entry.remaining -= part.length
+          data = data.subarray(part.length)
+          if (entry.remaining === 0) {
+            finishEntry(entry)
+            padding =
+              (TAR_BLOCK_SIZE - (entry.size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE
+            entry = undefined
+          }
+          continue
+        }
+
+        const needed = TAR_BLOCK_SIZE - header.length
+        header = Buffer.concat([header, data.subarray(0, needed)])
+        data = data.subarray(needed)
+        if (header.length < TAR_BLOCK_SIZE) {
+          break
+        }
+
+        const block = header
+        header = Buffer.alloc(0)
+        // Two zero blocks end the archive, one is enough to stop reading
+        if (block.every((byte) => byte === 0)) {
+          finished = true
+          break
+        }
+
+        const parsed = parseTarHeader(block)
+        const path = cleanMemberPath(nextPath ?? parsed.path)
+        if (parsed.type !== "L" && parsed.type !== "x") {
+          nextPath = undefined
+        }
+
+        const next: TarEntry = { ...parsed, path, remaining: parsed.size }
+        if (parsed.type === "L" || parsed.type === "x") {
+          next.chunks = []
+        } else if (
+          isRegularTarEntry(parsed.type) &&
+          parsed.size <= maxMemberSize
+        ) {
+          next.hash = createHash("sha256")
+        }
+
+        if (next.size === 0) {
+          finishEntry(next)
+        } else {
+          entry = next
+        }
+      }
+      if (finished) {
+        break
+      }
+    }
+  } finally {
+    source.destroy()
+    file.destroy()
+  }
+
+  if (entry) {
+    throw new Error("Truncated tar archive")
+  }
+  return members.filter((member) => member.path)
+}
+
+function parseTarHeader(block: Buffer): {
+  type: string
+  path: string
+  size: number
+  modified: Date
+} {
+  // The checksum treats its own field as spaces
+  let checksum = 0
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    checksum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  if (checksum !== parseOctal(block.subarray(148, 156))) {
+    throw new Error("Not a tar archive")
+  }
+
+  let path = cString(block.subarray(0, 100))
+  // ustar splits long paths into a prefix and a name
+  if (block.subarray(257, 262).toString("latin1") === "ustar") {
+    const prefix = cString(block.subarray(345, 500))
+    if (prefix) {
+      path = `${prefix}/${path}`
+    }
+  }
+
+  return {
+    type: String.fromCharCode(block[156] || 0x30),
+    path,
+    size: parseTarNumber(block.subarray(124, 136)),
+    modified: new Date(parseTarNumber(block.subarray(136, 148)) * 1000)
+  }
+}
+
+// Regular files; "7" is a contiguous file, read like a regular one
+function isRegularTarEntry(type: string): boolean {
+  return type === "0" || type === "7"
+}
+
+// Numbers too large for octal are stored base-256 with the high bit set
+function parseTarNumber(field: Buffer): number {
+  if (field[0] & 0x80) {
+    let value = field[0] & 0x7f
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field[i]
+    }
+    return value
+  }
+  return parseOctal(field)
+}
+
+function parseOctal(field: Buffer): number {
+  const text = cString(field).trim()
+  return text ? parseInt(text, 8) : 0
+}
+
+function cString(buffer: Buffer): string {
+  const end = buffer.indexOf(0)
+  return buffer.subarray(0, end < 0 ? buffer.length : end).toString("utf-8")
+}
+
+// pax records look like "30 path=some/very/long/name\n"
+function parsePaxPath(data: Buffer): string | undefined {
+  let path: string | undefined
+  let offset = 0
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset)
+    if (space < 0) {
+      break
+    }
+    // A record covers its own length field and newline, inside the data
+    const length = parseInt(data.subarray(offset, space).toString(), 10)
+    if (!(length > space + 1 - offset) || offset + length > data.length) {
+      break
+    }
+    const record = data.subarray(space + 1, offset + length - 1).toString()
+    if (record.startsWith("path=")) {
+      path = record.slice("path=".length)
+    }
+    offset += length
+  }
+  return path
+}
@@ -0,0 +1,179 @@
+import { createHash } from "crypto"
+import { createReadStream, createWriteStream, promises as fs } from "fs"
+import { join } from "path"
+import { Transform } from "stream"
+import { pipeline } from "stream/promises"
+import { FolderComparer } from "../detector/folder-comparer"
+import { calculateFileHash, pathExists } from "./file-utils"
+import { logger } from "./logger"
+
+export interface StoredBackup {
+  backupPath: string
+  hash: string
+}
+
+export interface BackupEntry {
+  path: string
+  size: number
+}
+
+// Backups are stored under their content hash, so identical duplicates are
+// only kept once: files in objects/<hh>/<hash>, directories in trees/<hash>
+export class BackupStore {
+  private directory: string
+  private objectsDirectory: string
+  private treesDirectory: string
+  private tempDirectory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+    this.objectsDirectory = join(directory, "objects")
+    this.treesDirectory = join(directory, "trees")
+    this.tempDirectory = join(directory, "tmp")
+  }
+
+  async store(sourcePath: string, knownHash?: string): Promise<StoredBackup> {
+    const stats = await fs.stat(sourcePath)
+    if (stats.isDirectory()) {
+      return this.storeDirectory(sourcePath)
+    }
+
+    // Reuse an existing object, but only once the file is proven to match it
+    if (knownHash) {
+      const existingPath = this.objectPath(knownHash)
+      if (
+        (await pathExists(existingPath)) &&
+        (await calculateFileHash(sourcePath)) === knownHash
+      ) {
+        logger.info("Backup deduplicated", { sourcePath, hash: knownHash })
+        return { backupPath: existingPath, hash: knownHash }
+      }
+    }
+
+    await fs.mkdir(this.tempDirectory, { recursive: true })
+    const tempPath = join(
+      this.tempDirectory,
+      `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    )
+
+    try {
+      const hash = await this.copyWithHash(sourcePath, tempPath)
+      const backupPath = this.objectPath(hash)
+
+      if (await pathExists(backupPath)) {
+        await fs.rm(tempPath, { force: true })
+      } else {
+        await fs.mkdir(join(backupPath, ".."), { recursive: true })
+        await fs.rename(tempPath, backupPath)
+      }
+
+      logger.info("Backup stored", { sourcePath, backupPath })
+      return { backupPath, hash }
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+  }
+
+  async verify(backupPath: string, hash: string): Promise<boolean> {
+    try {
+      const stats = await fs.stat(backupPath)
+      const actualHash = stats.isDirectory()
+        ? await BackupStore.calculateDirectoryHash(backupPath)
+        : await calculateFileHash(backupPath)
+
+      return actualHash === hash
+    } catch (error) {
+      logger.warn("Failed to verify backup", { backupPath, error })
+      return false
+    }
+  }
+
+  // Every stored backup, including ones written before content addressing
+  async list(): Promise<BackupEntry[]> {
+    const entries: BackupEntry[] = []
+
+    const addEntry = async (path: string): Promise<void> => {
+      const stats = await fs.stat(path)
+      const size = stats.isDirectory()
+        ? await new FolderComparer().getFolderSize(path)
+        : stats.size
+      entries.push({ path, size })
+    }
+
+    for (const prefix of await this.readDirectory(this.objectsDirectory)) {
+      const prefixPath = join(this.objectsDirectory, prefix)
+      for (const name of await this.readDirectory(prefixPath)) {
+        await addEntry(join(prefixPath, name))
+      }
+    }
+
+    for (const name of await this.readDirectory(this.treesDirectory)) {
+      await addEntry(join(this.treesDirectory, name))
+    }
+
+    for (const name of await this.readDirectory(this.directory)) {
+      if (!["objects", "trees", "tmp"].includes(name)) {
+        await addEntry(join(this.directory, name))
+      }
+    }
+
+    return entries
+  }
+
+  async remove(backupPath: string): Promise<void> {
+    await fs.rm(backupPath, { recursive: true, force: true })
+  }
+
+  static async calculateDirectoryHash(directoryPath: string): Promise<string> {
+    const structure = await new FolderComparer().buildFolderStructure(
+      directoryPath,
+      directoryPath
+    )
+    return structure.structureHash
+  }
+
+  private async storeDirectory(sourcePath: string): Promise<StoredBackup> {
+    const hash = await BackupStore.calculateDirectoryHash(sourcePath)
+    const backupPath = join(this.treesDirectory, hash)
+
+    if (!(await pathExists(backupPath))) {
+      await fs.cp(sourcePath, backupPath, { recursive: true })
+    }
+
+    logger.info("Directory backup stored", { sourcePath, backupPath })
+    return { backupPath, hash }
+  }
+
+  private async copyWithHash(
+    sourcePath: string,
+    targetPath: string
+  ): Promise<string> {
+    const hash = createHash("sha256")
+
+    await pipeline(
+      createReadStream(sourcePath),
+      new Transform({
+        transform(chunk, _encoding, callback) {
+          hash.update(chunk)
+          callback(null, chunk)
+        }
+      }),
+      createWriteStream(targetPath, { flags: "wx" })
+    )
+
+    return hash.digest("hex")
+  }
+
+  private objectPath(hash: string): string {
+    return join(this.objectsDirectory, hash.slice(0, 2), hash)
+  }
+
+  private async readDirectory(path: string): Promise<string[]> {
+    try {
+      return await fs.readdir(path)
+    } catch {
+      return []
+    }
+  }
+}
@@ -4,8 +4,11 @@ import { homedir } from "os"
 import { AppConfig, DEFAULT_CONFIG } from "../types/config"
 import { logger } from "./logger"
 
+export const PROJECT_CONFIG_FILE = ".duplicates-finder.json"
+
 export class ConfigManager {
   private configPath: string
+  private projectConfigPath?: string
   private config: AppConfig
 
   constructor() {
@@ -13,42 +16,52 @@ export class ConfigManager {
     this.config = { ...DEFAULT_CONFIG }
   }
 
-  async load(): Promise<AppConfig> {
-    try {
-      const configData = await fs.readFile(this.configPath, "utf-8")
-      const userConfig = JSON.parse(configData)
+  // Layers: defaults < home config < nearest project config
+  async load(projectDirectory?: string): Promise<AppConfig> {
+    const userConfig = await this.readConfigFile(this.configPath)
 
-      // Merge with defaults
-      this.config = { ...DEFAULT_CONFIG, ...userConfig }
-      logger.info("Configuration loaded", { configPath: this.configPath })
-    } catch (error) {
-      // Config file doesn't exist or is invalid, use defaults
-      logger.info("Using default configuration", {
-        reason: "Config file not found or invalid"
-      })
-    }
+    this.projectConfigPath = projectDirectory
+      ? await this.findProjectConfig(projectDirectory)
+      : undefined
+    const projectConfig = this.projectConfigPath
+      ? await this.readConfigFile(this.projectConfigPath)
+      : {}
+
+    this.config = mergeConfig(
+      mergeConfig(DEFAULT_CONFIG, userConfig),
+      projectConfig
+    )
+    logger.info("Configuration loaded", {
+      configPath: this.configPath,
+      projectConfigPath: this.projectConfigPath
+    })
 
     return this.config
   }
 
-  async save(config: Partial<AppConfig>): Promise<void> {
-    this.config = { ...this.config, ...config }
+  async save(
+    config: Partial<AppConfig>,
+    targetPath: string = this.configPath
+  ): Promise<void> {
+    // Only the target file's own values are rewritten, never the merged layers
+    const existing = await this.readConfigFile(targetPath)
+    this.config = mergeConfig(this.config, config)
 
     try {
       // Ensure config directory exists
-      await fs.mkdir(dirname(this.configPath), { recursive: true })
+      await fs.mkdir(dirname(targetPath), { recursive: true })
 
       // Write config file
       await fs.writeFile(
-        this.configPath,
-        JSON.stringify(this.config, null, 2),
+        targetPath,
+        JSON.stringify(mergeConfig(existing, config), null, 2),
         "utf-8"
       )
-      logger.info("Configuration saved", { configPath: this.configPath })
+      logger.info("Configuration saved", { configPath: targetPath })
     } catch (error) {
       logger.error("Failed to save configuration", {
         error,
-        configPath: this.configPath
+        configPath: targetPath
       })
       throw new Error(
         `Failed to save configuration: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -63,6 +76,158 @@ export class ConfigManager {
   reset(): void {
     this.config = { ...DEFAULT_CONFIG }
   }
+
+  async resetFile(targetPath: string = this.configPath): Promise<void> {
+    await fs.rm(targetPath, { force: true })
+    logger.info("Configuration reset", { configPath: targetPath })
+  }
+
+  getConfigPath(): string {
+    return this.configPath
+  }
+
+  getProjectConfigPath(): string | undefined {
+    return this.projectConfigPath
+  }
+
+  static isConfigKey(key: string): key is keyof AppConfig {
+    return Object.prototype.hasOwnProperty.call(DEFAULT_CONFIG, key)
+  }
+
+  // Converts a command line string into the type the default value has
+  static parseValue<K extends keyof AppConfig>(
+    key: K,
+    raw: string
+  ): AppConfig[K] {
+    const defaultValue = DEFAULT_CONFIG[key]
+
+    if (typeof defaultValue === "boolean") {
+      if (raw !== "true" && raw !== "false") {
+        throw new Error(`${key} must be true or false`)
+      }
+      return (raw === "true") as AppConfig[K]
+    }
+
+    if (typeof defaultValue === "number") {
+      const value = Number(raw)
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${key} must be a non-negative number`)
+      }
+      return value as AppConfig[K]
+    }
+
+    if (Array.isArray(defaultValue)) {
+      if (raw.trim().startsWith("[")) {
+        const value = JSON.parse(raw)
+        if (!Array.isArray(value)) {
+          throw new Error(`${key} must be a list`)
+        }
+        return value as AppConfig[K]
+      }
+      return raw
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean) as AppConfig[K]
+    }
+
+    if (typeof defaultValue === "object") {
+      const value = JSON.parse(raw)
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error(`${key} must be a JSON object`)
+      }
+      return value as AppConfig[K]
+    }
+
+    if (key === "colorScheme" && !["auto", "always", "never"].includes(raw)) {
+      throw new Error("colorScheme must be one of: auto, always, never")
+    }
+    if (
+      key === "defaultDestructiveAction" &&
+      !["delete", "trash"].includes(raw)
+    ) {
+      throw new Error("defaultDestructiveAction must be one of: delete, trash")
+    }
+    if (
+      key === "imageHashAlgorithm" &&
+      !["ahash", "dhash", "phash"].includes(raw)
+    ) {
+      throw new Error("imageHashAlgorithm must be one of: ahash, dhash, phash")
+    }
+    return raw as AppConfig[K]
+  }
+
+  private async readConfigFile(
+    configPath: string
+  ): Promise<Partial<AppConfig>> {
+    try {
+      const configData = await fs.readFile(configPath, "utf-8")
+      return JSON.parse(configData)
+    } catch (error) {
+      // Config file doesn't exist or is invalid, use defaults
+      logger.info("Using default configuration", {
+        configPath,
+        reason: "Config file not found or invalid"
+      })
+      return {}
+    }
+  }
+
+  private async findProjectConfig(
+    directory: string
+  ): Promise<string | undefined> {
+    let current = directory
+
+    while (true) {
+      const candidate = join(current, PROJECT_CONFIG_FILE)
+      try {
+        await fs.access(candidate)
+        return candidate
+      } catch {
+        // Keep looking in the parent directory
+      }
+
+      const parent = dirname(current)
+      if (parent === current) {
+        return undefined
+      }
+      current = parent
+    }
+  }
 }
 
 export const configManager = new ConfigManager()
+
+// Loads the layered configuration and applies command line overrides on top
+export async function loadConfig(
+  projectDirectory: string,
+  overrides: Partial<AppConfig> = {}
+): Promise<AppConfig> {
+  const config = await configManager.load(projectDirectory)
+  const definedOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  )
+
+  return mergeConfig(config, definedOverrides)
+}
+
+// Option objects such as nameMatching are merged key by key, so a layer that
+// sets one field keeps the others from the layers below
+function mergeConfig<T extends Partial<AppConfig>>(
+  base: T,
+  layer: Partial<AppConfig>
+): T {
+  const merged: Record<string, unknown> = { ...base }
+
+  for (const [key, value] of Object.entries(layer)) {
+    const current = merged[key]
+    merged[key] =
+      isPlainObject(value) && isPlainObject(current)
+        ? { ...current, ...value }
+        : value
+  }
+  return merged as T
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
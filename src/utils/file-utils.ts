@@ -1,7 +1,7 @@
 import { createHash } from "crypto"
-import { createReadStream, promises as fs } from "fs"
-import { join, extname, basename } from "path"
-import { FileMetadata } from "../types/file"
+import { constants as fsConstants, createReadStream, promises as fs } from "fs"
+import { join, extname, basename, dirname, relative } from "path"
+import { FileMetadata, MediaInfo } from "../types/file"
 
 export async function calculateFileHash(filePath: string): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -14,6 +14,37 @@ export async function calculateFileHash(filePath: string): Promise<string> {
   })
 }
 
+export const PARTIAL_HASH_SAMPLE_SIZE = 4096
+
+// Hashes the first and last few KB of a file, which is enough to tell most
+// same-sized files apart without reading them completely
+export async function calculatePartialHash(
+  filePath: string,
+  size: number,
+  sampleSize: number = PARTIAL_HASH_SAMPLE_SIZE
+): Promise<string> {
+  const hash = createHash("sha256")
+  const handle = await fs.open(filePath, "r")
+
+  try {
+    const headLength = Math.min(sampleSize, size)
+    const head = Buffer.alloc(headLength)
+    await handle.read(head, 0, headLength, 0)
+    hash.update(head)
+
+    if (size > sampleSize) {
+      const tailLength = Math.min(sampleSize, size - sampleSize)
+      const tail = Buffer.alloc(tailLength)
+      await handle.read(tail, 0, tailLength, size - tailLength)
+      hash.update(tail)
+    }
+  } finally {
+    await handle.close()
+  }
+
+  return hash.digest("hex")
+}
+
 export async function getFileMetadata(filePath: string): Promise<FileMetadata> {
   const stats = await fs.stat(filePath)
   const name = basename(filePath)
@@ -26,7 +57,126 @@ export async function getFileMetadata(filePath: string): Promise<FileMetadata> {
     modified: stats.mtime,
     created: stats.birthtime,
     isDirectory: stats.isDirectory(),
-    extension: extension || undefined
+    extension: extension || undefined,
+    inode: stats.ino
+  }
+}
+
+export async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function movePath(from: string, to: string): Promise<void> {
+  await fs.mkdir(dirname(to), { recursive: true })
+
+  try {
+    await fs.rename(from, to)
+  } catch (error) {
+    // rename() cannot cross filesystems, fall back to copy + remove
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error
+    }
+    await fs.cp(from, to, { recursive: true, errorOnExist: true, force: false })
+    await fs.rm(from, { recursive: true, force: true })
+  }
+}
+
+export type LinkKind = "hardlink" | "symlink" | "reflink"
+
+const REFLINK_UNSUPPORTED_CODES = [
+  "ENOTSUP",
+  "EOPNOTSUPP",
+  "ENOSYS",
+  "EINVAL",
+  "EXDEV"
+]
+
+const reflinkSupport = new Map<number, boolean>()
+
+// Clones a scratch file inside the directory, once per filesystem, so runs
+// that need copy-on-write clones are refused before anything is changed
+export async function supportsReflink(directory: string): Promise<boolean> {
+  const { dev } = await fs.stat(directory)
+  const known = reflinkSupport.get(dev)
+  if (known !== undefined) {
+    return known
+  }
+
+  const probePath = join(
+    directory,
+    `.reflink-probe.${Date.now()}_${Math.random().toString(36).substr(2, 9)}.tmp`
+  )
+  let supported = true
+  try {
+    await fs.writeFile(probePath, "probe")
+    await fs.copyFile(
+      probePath,
+      `${probePath}.clone`,
+      fsConstants.COPYFILE_FICLONE_FORCE
+    )
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code
+    if (!code || !REFLINK_UNSUPPORTED_CODES.includes(code)) {
+      throw error
+    }
+    supported = false
+  } finally {
+    await fs.rm(probePath, { force: true })
+    await fs.rm(`${probePath}.clone`, { force: true })
+  }
+
+  reflinkSupport.set(dev, supported)
+  return supported
+}
+
+// Builds the link next to the file and renames it over the original, so the
+// path is never missing and a failed link leaves the original untouched
+export async function replaceWithLink(
+  path: string,
+  target: string,
+  kind: LinkKind
+): Promise<void> {
+  const tempPath = join(
+    dirname(path),
+    `.${basename(path)}.${Date.now()}_${Math.random().toString(36).substr(2, 9)}.tmp`
+  )
+
+  try {
+    switch (kind) {
+      case "hardlink":
+        await fs.link(target, tempPath)
+        break
+      case "symlink":
+        await fs.symlink(relative(dirname(path), target), tempPath)
+        break
+      case "reflink":
+        try {
+          await fs.copyFile(
+            target,
+            tempPath,
+            fsConstants.COPYFILE_FICLONE_FORCE
+          )
+        } catch (error) {
+          const code = (error as NodeJS.ErrnoException).code
+          if (code && REFLINK_UNSUPPORTED_CODES.includes(code)) {
+            throw new Error(
+              "Copy-on-write clones are not supported on this filesystem"
+            )
+          }
+          throw error
+        }
+        break
+    }
+
+    await fs.rename(tempPath, path)
+  } finally {
+    // rename() is a no-op when both paths are already the same hard link
+    await fs.rm(tempPath, { force: true })
   }
 }
 
@@ -56,13 +206,49 @@ export function formatRelativeTime(date: Date): string {
   return `${Math.floor(diffDays / 365)} years ago`
 }
 
+export function formatSimilarity(similarity: number): string {
+  return `${Math.round(similarity * 100)}%`
+}
+
+// "FLAC • 3:07 • Artist - Title" for media files in similar-media groups
+export function formatMediaInfo(media: MediaInfo): string {
+  const parts: string[] = [media.format.toUpperCase()]
+  if (media.durationMs) {
+    parts.push(formatPlaytime(media.durationMs))
+  }
+  if (media.artist || media.title) {
+    parts.push([media.artist, media.title].filter(Boolean).join(" - "))
+  }
+  if (media.album) {
+    parts.push(media.album)
+  }
+  return parts.join(" • ")
+}
+
+// Track length as players show it: "3:07", "1:02:45"
+export function formatPlaytime(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  const clock = `${minutes % 60}:${String(seconds % 60).padStart(2, "0")}`
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}:${clock.padStart(5, "0")}`
+    : clock
+}
+
 export function shouldIgnoreFile(
   filePath: string,
   ignorePatterns: string[]
+): boolean {
+  return matchesAnyPattern(filePath, ignorePatterns)
+}
+
+export function matchesAnyPattern(
+  filePath: string,
+  patterns: string[]
 ): boolean {
   const normalizedPath = filePath.replace(/\\/g, "/")
 
-  return ignorePatterns.some((pattern) => {
+  return patterns.some((pattern) => {
     // Simple glob pattern matching
     const regex = new RegExp(
       pattern.replace(/\./g, "\\.").replace(/\*/g, ".*").replace(/\?/g, ".")
@@ -0,0 +1,93 @@
+import { FolderDiffNode, FolderDiffStatus } from "../types/duplicate"
+
+export interface FolderTreeLine {
+  text: string
+  status?: FolderDiffStatus // unset for the header and the "more" line
+}
+
+export interface FolderTreeOptions {
+  columnWidth: number
+  maxLines: number
+  collapseIdentical: boolean // show identical directories as one line
+}
+
+export const FOLDER_DIFF_MARKERS: Record<FolderDiffStatus, string> = {
+  identical: "=",
+  differs: "~",
+  missing: "!"
+}
+
+// Renders the folders of a group as trees side by side, one column per
+// folder. Entries a folder doesn't have leave its column blank.
+export function renderFolderDiff(
+  root: FolderDiffNode,
+  labels: string[],
+  options: FolderTreeOptions
+): FolderTreeLine[] {
+  const { columnWidth } = options
+  const rows: FolderTreeLine[] = []
+  let hiddenRows = 0
+
+  const row = (marker: string, columns: string[]): string =>
+    `${marker} ${columns.map((column) => fit(column, columnWidth)).join("  ")}`.trimEnd()
+
+  const visit = (node: FolderDiffNode, prefix: string) => {
+    const children = node.children || []
+    children.forEach((child, index) => {
+      const last = index === children.length - 1
+      const collapsed =
+        child.isDirectory &&
+        options.collapseIdentical &&
+        child.status === "identical"
+
+      let name = child.isDirectory ? `${child.name}/` : child.name
+      if (collapsed) {
+        const count = countFiles(child)
+        name += ` (${count} identical file${count === 1 ? "" : "s"})`
+      }
+
+      if (rows.length < options.maxLines) {
+        const entry = `${prefix}${last ? "└── " : "├── "}${name}`
+        rows.push({
+          text: row(
+            FOLDER_DIFF_MARKERS[child.status],
+            child.presentIn.map((present) => (present ? entry : ""))
+          ),
+          status: child.status
+        })
+      } else {
+        hiddenRows++
+      }
+
+      if (child.isDirectory && !collapsed) {
+        visit(child, prefix + (last ? "    " : "│   "))
+      }
+    })
+  }
+  visit(root, "")
+
+  const lines: FolderTreeLine[] = [{ text: row(" ", labels) }, ...rows]
+  if (hiddenRows > 0) {
+    lines.push({ text: `  ...and ${hiddenRows} more entries` })
+  }
+  return lines
+}
+
+export function countFiles(node: FolderDiffNode): number {
+  if (!node.isDirectory) {
+    return 1
+  }
+  return (node.children || []).reduce(
+    (sum, child) => sum + countFiles(child),
+    0
+  )
+}
+
+// Pads or cuts a column to exactly `width` characters
+function fit(text: string, width: number): string {
+  const characters = Array.from(text)
+  if (characters.length > width) {
+    return characters.slice(0, width - 1).join("") + "…"
+  }
+  return text + " ".repeat(width - characters.length)
+}
@@ -0,0 +1,235 @@
+import { promises as fs } from "fs"
+import { join, dirname } from "path"
+import { homedir } from "os"
+import { FileMetadata, ImageHashAlgorithm } from "../types/file"
+import { logger } from "./logger"
+
+export type HashKind = "partial" | "full"
+
+export interface HashCacheEntry {
+  size: number
+  mtimeMs: number
+  inode?: number
+  partialHash?: string
+  hash?: string
+  perceptualHash?: string // "<algorithm>:<hex>"
+  lastSeen: number
+}
+
+export interface HashCacheStats {
+  cachePath: string
+  entryCount: number
+  fullHashCount: number
+  fileSize: number
+  oldestEntry?: Date
+}
+
+const CACHE_VERSION = 1
+
+export class HashCache {
+  private cachePath: string
+  private entries = new Map<string, HashCacheEntry>()
+  private loaded = false
+  private dirty = false
+
+  constructor() {
+    this.cachePath = join(homedir(), ".duplicates-finder", "hash-cache.json")
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return
+    }
+
+    try {
+      const cacheData = await fs.readFile(this.cachePath, "utf-8")
+      const parsed = JSON.parse(cacheData)
+
+      if (parsed.version === CACHE_VERSION) {
+        this.entries = new Map(Object.entries(parsed.entries))
+      }
+      logger.info("Hash cache loaded", { entryCount: this.entries.size })
+    } catch (error) {
+      // Cache doesn't exist yet or is unreadable, start empty
+      this.entries = new Map()
+      logger.info("Starting with empty hash cache")
+    }
+
+    this.loaded = true
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return
+    }
+
+    try {
+      await fs.mkdir(dirname(this.cachePath), { recursive: true })
+      await fs.writeFile(
+        this.cachePath,
+        JSON.stringify({
+          version: CACHE_VERSION,
+          entries: Object.fromEntries(this.entries)
+        }),
+        "utf-8"
+      )
+      this.dirty = false
+    } catch (error) {
+      logger.error("Failed to save hash cache", { error })
+    }
+  }
+
+  get(file: FileMetadata, kind: HashKind): string | undefined {
+    const entry = this.entries.get(file.path)
+    if (!entry || !this.matches(entry, file)) {
+      return undefined
+    }
+
+    entry.lastSeen = Date.now()
+    this.dirty = true
+    return kind === "full" ? entry.hash : entry.partialHash
+  }
+
+  set(file: FileMetadata, kind: HashKind, hash: string): void {
+    const entry = this.entryFor(file)
+
+    if (kind === "full") {
+      entry.hash = hash
+    } else {
+      entry.partialHash = hash
+    }
+    entry.lastSeen = Date.now()
+    this.dirty = true
+  }
+
+  getPerceptualHash(
+    file: FileMetadata,
+    algorithm: ImageHashAlgorithm
+  ): string | undefined {
+    const entry = this.entries.get(file.path)
+    if (!entry || !this.matches(entry, file)) {
+      return undefined
+    }
+
+    // Hashes from another algorithm can't be compared, so they don't count
+    const [cachedAlgorithm, hash] = (entry.perceptualHash || "").split(":")
+    if (cachedAlgorithm !== algorithm || !hash) {
+      return undefined
+    }
+
+    entry.lastSeen = Date.now()
+    this.dirty = true
+    return hash
+  }
+
+  setPerceptualHash(
+    file: FileMetadata,
+    algorithm: ImageHashAlgorithm,
+    hash: string
+  ): void {
+    const entry = this.entryFor(file)
+    entry.perceptualHash = `${algorithm}:${hash}`
+    entry.lastSeen = Date.now()
+    this.dirty = true
+  }
+
+  async stats(): Promise<HashCacheStats> {
+    await this.load()
+
+    let fileSize = 0
+    try {
+      fileSize = (await fs.stat(this.cachePath)).size
+    } catch {
+      // Cache file hasn't been written yet
+    }
+
+    const entries = Array.from(this.entries.values())
+    const oldest = entries.reduce(
+      (min, entry) => Math.min(min, entry.lastSeen),
+      Infinity
+    )
+
+    return {
+      cachePath: this.cachePath,
+      entryCount: entries.length,
+      fullHashCount: entries.filter((entry) => entry.hash).length,
+      fileSize,
+      oldestEntry: entries.length > 0 ? new Date(oldest) : undefined
+    }
+  }
+
+  // Drops entries for files that no longer exist or have changed, and
+  // optionally entries that haven't been used for a while
+  async prune(maxAgeDays?: number): Promise<number> {
+    await this.load()
+
+    const cutoff =
+      maxAgeDays !== undefined
+        ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000
+        : undefined
+    let removed = 0
+
+    for (const [path, entry] of this.entries) {
+      let stale = cutoff !== undefined && entry.lastSeen < cutoff
+
+      if (!stale) {
+        try {
+          const stats = await fs.stat(path)
+          stale =
+            stats.size !== entry.size ||
+            stats.mtime.getTime() !== entry.mtimeMs ||
+            (entry.inode !== undefined && stats.ino !== entry.inode)
+        } catch {
+          stale = true
+        }
+      }
+
+      if (stale) {
+        this.entries.delete(path)
+        removed++
+      }
+    }
+
+    if (removed > 0) {
+      this.dirty = true
+      await this.save()
+    }
+
+    logger.info("Hash cache pruned", { removed, remaining: this.entries.size })
+    return removed
+  }
+
+  async clear(): Promise<void> {
+    this.entries = new Map()
+    this.loaded = true
+    this.dirty = false
+    await fs.rm(this.cachePath, { force: true })
+    logger.info("Hash cache cleared")
+  }
+
+  private entryFor(file: FileMetadata): HashCacheEntry {
+    let entry = this.entries.get(file.path)
+
+    // A changed file invalidates every hash stored for it
+    if (!entry || !this.matches(entry, file)) {
+      entry = {
+        size: file.size,
+        mtimeMs: file.modified.getTime(),
+        inode: file.inode,
+        lastSeen: Date.now()
+      }
+      this.entries.set(file.path, entry)
+    }
+    return entry
+  }
+
+  private matches(entry: HashCacheEntry, file: FileMetadata): boolean {
+    return (
+      entry.size === file.size &&
+      entry.mtimeMs === file.modified.getTime() &&
+      (entry.inode === undefined || entry.inode === file.inode)
+    )
+  }
+}
+
+export const hashCache = new HashCache()
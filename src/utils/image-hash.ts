@@ -0,0 +1,193 @@
+import { promises as fs } from "fs"
+import { decode as decodeJpeg } from "jpeg-js"
+import { PNG } from "pngjs"
+import { FileMetadata, ImageHashAlgorithm } from "../types/file"
+
+export const IMAGE_HASH_ALGORITHMS: ImageHashAlgorithm[] = [
+  "ahash",
+  "dhash",
+  "phash"
+]
+
+// Hashes are 64 bits, so this allows about 15% of the bits to differ
+export const DEFAULT_IMAGE_SIMILARITY_THRESHOLD = 10
+export const IMAGE_HASH_BITS = 64
+
+const JPEG_EXTENSIONS = [".jpg", ".jpeg", ".jpe", ".jfif"]
+const PNG_EXTENSIONS = [".png"]
+
+// Refuse images that would need more memory than a scan should use
+const MAX_IMAGE_MEGAPIXELS = 100
+const MAX_DECODE_MEMORY_MB = 1024
+
+interface GrayImage {
+  width: number
+  height: number
+  pixels: Float64Array
+}
+
+export function isHashableImage(file: FileMetadata): boolean {
+  return (
+    !!file.extension &&
+    (JPEG_EXTENSIONS.includes(file.extension) ||
+      PNG_EXTENSIONS.includes(file.extension))
+  )
+}
+
+// Returns a 64-bit perceptual hash as 16 hex digits. Visually similar images
+// get hashes that differ in only a few bits, whatever their size or encoding.
+export async function calculatePerceptualHash(
+  filePath: string,
+  algorithm: ImageHashAlgorithm
+): Promise<string> {
+  const image = await decodeImage(filePath)
+
+  switch (algorithm) {
+    case "ahash":
+      return averageHash(image)
+    case "dhash":
+      return differenceHash(image)
+    case "phash":
+      return dctHash(image)
+  }
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let x = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let distance = 0
+  while (x > 0n) {
+    distance += Number(x & 1n)
+    x >>= 1n
+  }
+  return distance
+}
+
+async function decodeImage(filePath: string): Promise<GrayImage> {
+  const data = await fs.readFile(filePath)
+  const extension = filePath.slice(filePath.lastIndexOf(".")).toLowerCase()
+
+  const decoded = PNG_EXTENSIONS.includes(extension)
+    ? PNG.sync.read(data)
+    : decodeJpeg(data, {
+        useTArray: true,
+        formatAsRGBA: true,
+        maxResolutionInMP: MAX_IMAGE_MEGAPIXELS,
+        maxMemoryUsageInMB: MAX_DECODE_MEMORY_MB
+      })
+
+  if (decoded.width === 0 || decoded.height === 0) {
+    throw new Error("Image has no pixels")
+  }
+
+  // Luma, with transparent pixels treated as white
+  const pixels = new Float64Array(decoded.width * decoded.height)
+  for (let i = 0; i < pixels.length; i++) {
+    const offset = i * 4
+    const alpha = decoded.data[offset + 3] / 255
+    const luma =
+      0.299 * decoded.data[offset] +
+      0.587 * decoded.data[offset + 1] +
+      0.114 * decoded.data[offset + 2]
+    pixels[i] = luma * alpha + 255 * (1 - alpha)
+  }
+
+  return { width: decoded.width, height: decoded.height, pixels }
+}
+
+// Box filter, so every source pixel counts and resized copies come out alike
+function resize(image: GrayImage, width: number, height: number): number[] {
+  const result: number[] = []
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height)
+    const bottom = Math.max(
+      top + 1,
+      Math.floor(((y + 1) * image.height) / height)
+    )
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width)
+      const right = Math.max(
+        left + 1,
+        Math.floor(((x + 1) * image.width) / width)
+      )
+
+      let sum = 0
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          sum += image.pixels[sy * image.width + sx]
+        }
+      }
+      result.push(sum / ((bottom - top) * (right - left)))
+    }
+  }
+
+  return result
+}
+
+export function bitsToHex(bits: boolean[]): string {
+  let hex = ""
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble =
+      (Number(bits[i]) << 3) |
+      (Number(bits[i + 1]) << 2) |
+      (Number(bits[i + 2]) << 1) |
+      Number(bits[i + 3])
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+// Each bit says whether a cell of an 8x8 thumbnail is brighter than average
+function averageHash(image: GrayImage): string {
+  const pixels = resize(image, 8, 8)
+  const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length
+  return bitsToHex(pixels.map((value) => value > mean))
+}
+
+// Each bit says whether a cell is brighter than its right-hand neighbour
+function differenceHash(image: GrayImage): string {
+  const pixels = resize(image, 9, 8)
+  const bits: boolean[] = []
+
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1])
+    }
+  }
+  return bitsToHex(bits)
+}
+
+// Compares the lowest frequencies of a 32x32 thumbnail's DCT against their
+// median, which survives resizing, recompression and small colour changes
+function dctHash(image: GrayImage): string {
+  const size = 32
+  const lowFrequencies = 8
+  const pixels = resize(image, size, size)
+
+  const cosines: number[][] = []
+  for (let u = 0; u < lowFrequencies; u++) {
+    cosines.push([])
+    for (let x = 0; x < size; x++) {
+      cosines[u].push(Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)))
+    }
+  }
+
+  const coefficients: number[] = []
+  for (let v = 0; v < lowFrequencies; v++) {
+    for (let u = 0; u < lowFrequencies; u++) {
+      let sum = 0
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          sum += pixels[y * size + x] * cosines[u][x] * cosines[v][y]
+        }
+      }
+      coefficients.push(sum)
+    }
+  }
+
+  // The first coefficient is the overall brightness, it'd skew the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b)
+  const median = sorted[Math.floor(sorted.length / 2)]
+  return bitsToHex(coefficients.map((value) => value > median))
+}
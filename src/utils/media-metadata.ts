@@ -0,0 +1,593 @@
+import { promises as fs } from "fs"
+import { FileMetadata, MediaInfo } from "../types/file"
+import { bitsToHex } from "./image-hash"
+
+type FileHandle = fs.FileHandle
+
+const MP3_EXTENSIONS = [".mp3"]
+const FLAC_EXTENSIONS = [".flac"]
+const MP4_EXTENSIONS = [".mp4", ".m4a", ".m4v", ".mov", ".3gp"]
+const WAV_EXTENSIONS = [".wav"]
+
+export const DEFAULT_MEDIA_DURATION_TOLERANCE = 2 // seconds
+export const MEDIA_FINGERPRINT_BITS = 64
+// Re-encodes of one recording rarely differ in more bits than this
+export const MEDIA_FINGERPRINT_THRESHOLD = 8
+
+// moov atoms are usually well under a megabyte, anything huge is suspect
+const MAX_MOOV_SIZE = 64 * 1024 * 1024
+const MP3_SYNC_SEARCH_BYTES = 64 * 1024
+
+// A fingerprint compares the loudness of 65 equal slices of the recording
+const FINGERPRINT_SLICES = MEDIA_FINGERPRINT_BITS + 1
+const FINGERPRINT_WINDOW_MS = 500
+
+const MP3_BITRATES: Record<string, number[]> = {
+  // kbit/s by bitrate index, for Layer III
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+}
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000] // MPEG 2.5
+}
+
+export function isMediaFile(file: FileMetadata): boolean {
+  return !!file.extension && mediaFormat(file.extension) !== undefined
+}
+
+// Reads duration and tags from the container without decoding any audio.
+// Uncompressed WAV audio can also be fingerprinted, since it needs no decoder.
+export async function readMediaInfo(
+  filePath: string,
+  extension: string,
+  withFingerprint: boolean
+): Promise<MediaInfo | undefined> {
+  const format = mediaFormat(extension)
+  if (!format) {
+    return undefined
+  }
+
+  const handle = await fs.open(filePath, "r")
+  try {
+    const { size } = await handle.stat()
+
+    switch (format) {
+      case "mp3":
+        return await readMp3(handle, size)
+      case "flac":
+        return await readFlac(handle)
+      case "mp4":
+        return await readMp4(handle, size)
+      case "wav":
+        return await readWav(handle, size, withFingerprint)
+    }
+  } finally {
+    await handle.close()
+  }
+}
+
+function mediaFormat(extension: string): MediaInfo["format"] | undefined {
+  if (MP3_EXTENSIONS.includes(extension)) return "mp3"
+  if (FLAC_EXTENSIONS.includes(extension)) return "flac"
+  if (MP4_EXTENSIONS.includes(extension)) return "mp4"
+  if (WAV_EXTENSIONS.includes(extension)) return "wav"
+  return undefined
+}
+
+async function readAt(
+  handle: FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> {
+  const buffer = Buffer.alloc(Math.max(0, length))
+  const { bytesRead } = await handle.read(buffer, 0, buffer.length, position)
+  return buffer.subarray(0, bytesRead)
+}
+
+function cleanTag(value: string | undefined): string | undefined {
+  const cleaned = value?.replace(/\0/g, "").trim()
+  return cleaned || undefined
+}
+
+async function readMp3(
+  handle: FileHandle,
+  fileSize: number
+): Promise<MediaInfo> {
+  const info: MediaInfo = { format: "mp3" }
+  let audioStart = 0
+  let lengthFrameMs: number | undefined
+
+  const header = await readAt(handle, 0, 10)
+  if (header.length === 10 && header.toString("latin1", 0, 3) === "ID3") {
+    const tagSize = syncSafe(header, 6)
+    const hasFooter = (header[5] & 0x10) !== 0
+    audioStart = 10 + tagSize + (hasFooter ? 10 : 0)
+
+    const frames = parseId3v2(await readAt(handle, 10, tagSize), header[3])
+    info.title = frames.get("TIT2") || frames.get("TT2")
+    info.artist = frames.get("TPE1") || frames.get("TP1")
+    info.album = frames.get("TALB") || frames.get("TAL")
+    info.track = parseTrack(frames.get("TRCK") || frames.get("TRK"))
+    const length = Number(frames.get("TLEN") || frames.get("TLE"))
+    lengthFrameMs = length > 0 ? length : undefined
+  }
+
+  // ID3v1 fills in what an ID3v2 tag didn't have
+  let audioEnd = fileSize
+  const v1 = await readAt(handle, Math.max(0, fileSize - 128), 128)
+  if (v1.length === 128 && v1.toString("latin1", 0, 3) === "TAG") {
+    audioEnd -= 128
+    info.title ??= cleanTag(v1.toString("latin1", 3, 33))
+    info.artist ??= cleanTag(v1.toString("latin1", 33, 63))
+    info.album ??= cleanTag(v1.toString("latin1", 63, 93))
+    if (v1[125] === 0 && v1[126] > 0) {
+      info.track ??= v1[126]
+    }
+  }
+
+  const search = await readAt(handle, audioStart, MP3_SYNC_SEARCH_BYTES)
+  info.durationMs = mp3Duration(search, audioEnd - audioStart) ?? lengthFrameMs
+  return info
+}
+
+function syncSafe(buffer: Buffer, offset: number): number {
+  return (
+    ((buffer[offset] & 0x7f) << 21) |
+    ((buffer[offset + 1] & 0x7f) << 14) |
+    ((buffer[offset + 2] & 0x7f) << 7) |
+    (buffer[offset + 3] & 0x7f)
+  )
+}
+
+// Text frames only, keyed by frame id
+function parseId3v2(tag: Buffer, majorVersion: number): Map<string, string> {
+  const frames = new Map<string, string>()
+  const idLength = majorVersion === 2 ? 3 : 4
+  const headerLength = majorVersion === 2 ? 6 : 10
+  let offset = 0
+
+  while (offset + headerLength <= tag.length) {
+    const id = tag.toString("latin1", offset, offset + idLength)
+    if (!/^[A-Z0-9]+$/.test(id)) {
+      break // Padding
+    }
+
+    const size =
+      majorVersion === 2
+        ? tag.readUIntBE(offset + 3, 3)
+        : majorVersion === 4
+          ? syncSafe(tag, offset + 4)
+          : tag.readUInt32BE(offset + 4)
+    const body = tag.subarray(
+      offset + headerLength,
+      offset + headerLength + size
+    )
+
+    if (id.startsWith("T") && body.length > 1) {
+      const text = decodeId3Text(body[0], body.subarray(1))
+      if (text) {
+        frames.set(id, text)
+      }
+    }
+    offset += headerLength + size
+  }
+
+  return frames
+}
+
+function decodeId3Text(encoding: number, data: Buffer): string | undefined {
+  let text: string
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with a byte order mark
+      const bigEndian = data[0] === 0xfe && data[1] === 0xff
+      const body = data.subarray(
+        (data[0] === 0xff && data[1] === 0xfe) || bigEndian ? 2 : 0
+      )
+      text = bigEndian
+        ? Buffer.from(body).swap16().toString("utf16le")
+        : body.toString("utf16le")
+      break
+    }
+    case 2: {
+      const body = Buffer.from(data.subarray(0, data.length & ~1))
+      text = body.swap16().toString("utf16le")
+      break
+    }
+    case 3:
+      text = data.toString("utf-8")
+      break
+    default:
+      text = data.toString("latin1")
+  }
+  // Multiple values are separated by NULs, the first is enough
+  return cleanTag(text.split("\0")[0])
+}
+
+function parseTrack(value: string | undefined): number | undefined {
+  const track = parseInt(value || "", 10)
+  return track > 0 ? track : undefined
+}
+
+// Uses the Xing/Info or VBRI frame count when there is one, otherwise assumes
+// a constant bitrate
+function mp3Duration(data: Buffer, audioBytes: number): number | undefined {
+  for (let offset = 0; offset + 4 <= data.length; offset++) {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) {
+      continue
+    }
+
+    const versionBits = (data[offset + 1] >> 3) & 3
+    const layerBits = (data[offset + 1] >> 1) & 3
+    const bitrateIndex = data[offset + 2] >> 4
+    const sampleRateIndex = (data[offset + 2] >> 2) & 3
+    if (
+      versionBits === 1 ||
+      layerBits !== 1 ||
+      bitrateIndex === 0 ||
+      bitrateIndex === 15 ||
+      sampleRateIndex === 3
+    ) {
+      continue
+    }
+
+    const mpeg1 = versionBits === 3
+    const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex]
+    const samplesPerFrame = mpeg1 ? 1152 : 576
+    const mono = data[offset + 3] >> 6 === 3
+    const sideInfo = mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17
+
+    const xing = offset + 4 + sideInfo
+    const xingTag = data.toString("latin1", xing, xing + 4)
+    if (
+      (xingTag === "Xing" || xingTag === "Info") &&
+      xing + 12 <= data.length
+    ) {
+      if (data.readUInt32BE(xing + 4) & 1) {
+        const frames = data.readUInt32BE(xing + 8)
+        return (frames * samplesPerFrame * 1000) / sampleRate
+      }
+    }
+
+    const vbri = offset + 36
+    if (
+      data.toString("latin1", vbri, vbri + 4) === "VBRI" &&
+      vbri + 18 <= data.length
+    ) {
+      const frames = data.readUInt32BE(vbri + 14)
+      return (frames * samplesPerFrame * 1000) / sampleRate
+    }
+
+    const kbps = MP3_BITRATES[mpeg1 ? "mpeg1" : "mpeg2"][bitrateIndex]
+    return ((audioBytes - offset) * 8) / kbps
+  }
+
+  return undefined
+}
+
+async function readFlac(handle: FileHandle): Promise<MediaInfo | undefined> {
+  if ((await readAt(handle, 0, 4)).toString("latin1") !== "fLaC") {
+    return undefined
+  }
+
+  const info: MediaInfo = { format: "flac" }
+  let offset = 4
+  let last = false
+
+  while (!last) {
+    const header = await readAt(handle, offset, 4)
+    if (header.length < 4) break
+
+    last = (header[0] & 0x80) !== 0
+    const type = header[0] & 0x7f
+    const length = header.readUIntBE(1, 3)
+
+    if (type === 0) {
+      const streamInfo = await readAt(handle, offset + 4, length)
+      const sampleRate =
+        (streamInfo[10] << 12) | (streamInfo[11] << 4) | (streamInfo[12] >> 4)
+      const totalSamples =
+        (streamInfo[13] & 0x0f) * 2 ** 32 + streamInfo.readUInt32BE(14)
+      if (sampleRate > 0 && totalSamples > 0) {
+        info.durationMs = (totalSamples * 1000) / sampleRate
+      }
+    } else if (type === 4) {
+      const comments = parseVorbisComments(
+        await readAt(handle, offset + 4, length)
+      )
+      info.title = comments.get("TITLE")
+      info.artist = comments.get("ARTIST")
+      info.album = comments.get("ALBUM")
+      info.track = parseTrack(comments.get("TRACKNUMBER"))
+    }
+
+    offset += 4 + length
+  }
+
+  return info
+}
+
+function parseVorbisComments(data: Buffer): Map<string, string> {
+  const comments = new Map<string, string>()
+  let offset = 4 + data.readUInt32LE(0) // Skip the vendor string
+  const count = data.readUInt32LE(offset)
+  offset += 4
+
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(offset)
+    const comment = data.toString("utf-8", offset + 4, offset + 4 + length)
+    offset += 4 + length
+
+    const separator = comment.indexOf("=")
+    const key = comment.slice(0, separator).toUpperCase()
+    const value = cleanTag(comment.slice(separator + 1))
+    if (separator > 0 && value && !comments.has(key)) {
+      comments.set(key, value)
+    }
+  }
+
+  return comments
+}
+
+async function readMp4(
+  handle: FileHandle,
+  fileSize: number
+): Promise<MediaInfo | undefined> {
+  let offset = 0
+
+  // Only the top-level boxes are walked on disk, the moov box is read whole
+  while (offset + 8 <= fileSize) {
+    const header = await readAt(handle, offset, 16)
+    if (header.length < 8) break
+
+    let size = header.readUInt32BE(0)
+    const type = header.toString("latin1", 4, 8)
+    let headerLength = 8
+    if (size === 1) {
+      size = Number(header.readBigUInt64BE(8))
+      headerLength = 16
+    } else if (size === 0) {
+      size = fileSize - offset
+    }
+    if (size < headerLength) break
+
+    if (type === "moov") {
+      if (size > MAX_MOOV_SIZE) {
+        return undefined
+      }
+      const moov = await readAt(
+        handle,
+        offset + headerLength,
+        size - headerLength
+      )
+      return parseMoov(moov)
+    }
+    offset += size
+  }
+
+  return undefined
+}
+
+function* boxes(
+  data: Buffer
+): Generator<{ type: string; body: Buffer }, void, undefined> {
+  let offset = 0
+  while (offset + 8 <= data.length) {
+    let size = data.readUInt32BE(offset)
+    const type = data.toString("latin1", offset + 4, offset + 8)
+    let headerLength = 8
+    if (size === 1 && offset + 16 <= data.length) {
+      size = Number(data.readBigUInt64BE(offset + 8))
+      headerLength = 16
+    } else if (size === 0) {
+      size = data.length - offset
+    }
+    if (size < headerLength) return
+
+    yield { type, body: data.subarray(offset + headerLength, offset + size) }
+    offset += size
+  }
+}
+
+function parseMoov(moov: Buffer): MediaInfo {
+  const info: MediaInfo = { format: "mp4" }
+
+  for (const box of boxes(moov)) {
+    if (box.type === "mvhd") {
+      const version = box.body[0]
+      const timescale = box.body.readUInt32BE(version === 1 ? 20 : 12)
+      const duration =
+        version === 1
+          ? Number(box.body.readBigUInt64BE(24))
+          : box.body.readUInt32BE(16)
+      if (timescale > 0) {
+        info.durationMs = (duration * 1000) / timescale
+      }
+    } else if (box.type === "udta") {
+      for (const meta of boxes(box.body)) {
+        if (meta.type !== "meta") continue
+        // meta is a full box: version and flags come before its children
+        for (const ilst of boxes(meta.body.subarray(4))) {
+          if (ilst.type === "ilst") {
+            readItemList(ilst.body, info)
+          }
+        }
+      }
+    }
+  }
+
+  return info
+}
+
+function readItemList(ilst: Buffer, info: MediaInfo): void {
+  for (const item of boxes(ilst)) {
+    for (const data of boxes(item.body)) {
+      // Skip the type indicator and locale
+      if (data.type !== "data" || data.body.length < 8) continue
+      const value = data.body.subarray(8)
+
+      switch (item.type) {
+        case "©nam":
+          info.title = cleanTag(value.toString("utf-8"))
+          break
+        case "©ART":
+          info.artist = cleanTag(value.toString("utf-8"))
+          break
+        case "©alb":
+          info.album = cleanTag(value.toString("utf-8"))
+          break
+        case "trkn":
+          if (value.length >= 4 && value.readUInt16BE(2) > 0) {
+            info.track = value.readUInt16BE(2)
+          }
+          break
+      }
+    }
+  }
+}
+
+async function readWav(
+  handle: FileHandle,
+  fileSize: number,
+  withFingerprint: boolean
+): Promise<MediaInfo | undefined> {
+  const riff = await readAt(handle, 0, 12)
+  if (
+    riff.length < 12 ||
+    riff.toString("latin1", 0, 4) !== "RIFF" ||
+    riff.toString("latin1", 8, 12) !== "WAVE"
+  ) {
+    return undefined
+  }
+
+  const info: MediaInfo = { format: "wav" }
+  let format: Buffer | undefined
+  let dataStart = 0
+  let dataSize = 0
+  let offset = 12
+
+  while (offset + 8 <= fileSize) {
+    const header = await readAt(handle, offset, 8)
+    if (header.length < 8) break
+    const id = header.toString("latin1", 0, 4)
+    const size = header.readUInt32LE(4)
+
+    if (id === "fmt ") {
+      format = await readAt(handle, offset + 8, Math.min(size, 40))
+    } else if (id === "data") {
+      dataStart = offset + 8
+      dataSize = Math.min(size, fileSize - dataStart)
+    } else if (id === "LIST") {
+      readRiffInfo(await readAt(handle, offset + 8, size), info)
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2)
+  }
+
+  if (!format || format.length < 16 || dataSize === 0) {
+    return info
+  }
+
+  const byteRate = format.readUInt32LE(8)
+  if (byteRate > 0) {
+    info.durationMs = (dataSize * 1000) / byteRate
+  }
+
+  const pcm = format.readUInt16LE(0) === 1
+  const bitsPerSample = format.readUInt16LE(14)
+  if (withFingerprint && pcm && (bitsPerSample === 8 || bitsPerSample === 16)) {
+    info.fingerprint = await fingerprintPcm(handle, {
+      dataStart,
+      dataSize,
+      byteRate,
+      blockAlign: format.readUInt16LE(12),
+      channels: format.readUInt16LE(2),
+      bitsPerSample
+    })
+  }
+
+  return info
+}
+
+function readRiffInfo(list: Buffer, info: MediaInfo): void {
+  if (list.toString("latin1", 0, 4) !== "INFO") return
+
+  let offset = 4
+  while (offset + 8 <= list.length) {
+    const id = list.toString("latin1", offset, offset + 4)
+    const size = list.readUInt32LE(offset + 4)
+    const value = cleanTag(
+      list.toString("utf-8", offset + 8, offset + 8 + size)
+    )
+
+    if (id === "INAM") info.title = value
+    if (id === "IART") info.artist = value
+    if (id === "IPRD") info.album = value
+    if (id === "ITRK") info.track = parseTrack(value)
+    offset += 8 + size + (size % 2)
+  }
+}
+
+// Compares the loudness of neighbouring slices, which survives resampling,
+// volume changes and lossy re-encoding better than the samples themselves
+async function fingerprintPcm(
+  handle: FileHandle,
+  pcm: {
+    dataStart: number
+    dataSize: number
+    byteRate: number
+    blockAlign: number
+    channels: number
+    bitsPerSample: number
+  }
+): Promise<string | undefined> {
+  const sliceBytes = Math.floor(pcm.dataSize / FINGERPRINT_SLICES)
+  const windowBytes = Math.min(
+    sliceBytes,
+    Math.floor((pcm.byteRate * FINGERPRINT_WINDOW_MS) / 1000)
+  )
+  const windowFrames = Math.floor(windowBytes / pcm.blockAlign)
+  if (windowFrames === 0) {
+    return undefined
+  }
+
+  const loudness: number[] = []
+  for (let slice = 0; slice < FINGERPRINT_SLICES; slice++) {
+    // Each window sits in the middle of its slice
+    const position =
+      pcm.dataStart +
+      slice * sliceBytes +
+      Math.floor((sliceBytes - windowBytes) / 2 / pcm.blockAlign) *
+        pcm.blockAlign
+    const window = await readAt(handle, position, windowFrames * pcm.blockAlign)
+
+    let sum = 0
+    let count = 0
+    for (
+      let frame = 0;
+      frame + pcm.blockAlign <= window.length;
+      frame += pcm.blockAlign
+    ) {
+      // Mixed down to mono
+      let sample = 0
+      for (let channel = 0; channel < pcm.channels; channel++) {
+        sample +=
+          pcm.bitsPerSample === 8
+            ? window[frame + channel] - 128
+            : window.readInt16LE(frame + channel * 2) / 256
+      }
+      sample /= pcm.channels
+      sum += sample * sample
+      count++
+    }
+    loudness.push(count > 0 ? Math.sqrt(sum / count) : 0)
+  }
+
+  const bits: boolean[] = []
+  for (let i = 1; i < loudness.length; i++) {
+    bits.push(loudness[i] > loudness[i - 1])
+  }
+  return bitsToHex(bits)
+}
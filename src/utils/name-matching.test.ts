@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { NameMatchingOptions } from "../types/config"
+import {
+  describeNameMatch,
+  levenshteinDistance,
+  normalizeName
+} from "./name-matching"
+
+const DEFAULTS: NameMatchingOptions = {
+  ignoreCase: true,
+  stripCopySuffixes: true,
+  ignoreExtension: false,
+  maxEditDistance: 0
+}
+
+const key = (name: string, options: Partial<NameMatchingOptions> = {}) =>
+  normalizeName(name, { ...DEFAULTS, ...options }).key
+
+describe("normalizeName", () => {
+  it.each([
+    ["report (1).pdf", "report.pdf"],
+    ["report [2].pdf", "report.pdf"],
+    ["report copy.pdf", "report.pdf"],
+    ["report - Copy.pdf", "report.pdf"],
+    ["report Copy 3.pdf", "report.pdf"],
+    ["Copy of report.pdf", "report.pdf"],
+    ["report_final.pdf", "report.pdf"],
+    ["report (1) copy.pdf", "report.pdf"],
+    ["My_Holiday-Photos.JPG", "my holiday photos.jpg"]
+  ])("strips copy markers from %s", (name, expected) => {
+    expect(key(name)).toBe(expected)
+  })
+
+  it.each(["Chapter 2.txt", "page-2.txt", "report v2.txt"])(
+    "keeps the number in %s",
+    (name) => {
+      expect(key(name)).not.toBe(key(name.replace(/\d/, "")))
+    }
+  )
+
+  it("never strips a name down to nothing", () => {
+    expect(key("copy.txt")).toBe("copy.txt")
+    expect(key("(1).txt")).toBe("(1).txt")
+  })
+
+  it("treats NFC and NFD spellings as the same name", () => {
+    expect(key("cafe\u0301.txt")).toBe(key("caf\u00e9.txt"))
+  })
+
+  it("only applies the rules that are switched on", () => {
+    expect(key("Report (1).PDF", { ignoreCase: false })).toBe("Report.PDF")
+    expect(key("Report (1).PDF", { stripCopySuffixes: false })).toBe(
+      "report (1).pdf"
+    )
+    expect(key("report.pdf", { ignoreExtension: true })).toBe("report")
+  })
+
+  it("lists the rules that changed the name", () => {
+    expect(normalizeName("Report (1).pdf", DEFAULTS).rules).toEqual([
+      "case",
+      "copy-suffix"
+    ])
+    expect(normalizeName("report.pdf", DEFAULTS).rules).toEqual([])
+  })
+})
+
+describe("describeNameMatch", () => {
+  it("names only the rules that kept the group together", () => {
+    expect(
+      describeNameMatch(["Report.pdf", "report (1).pdf"], DEFAULTS, 0)
+    ).toBe("Names match ignoring letter case, copy markers")
+    expect(
+      describeNameMatch(["report.pdf", "report (1).pdf"], DEFAULTS, 0)
+    ).toBe("Names match ignoring copy markers")
+  })
+
+  it("mentions identical names and edit distances", () => {
+    expect(describeNameMatch(["a.txt", "a.txt"], DEFAULTS, 0)).toBe(
+      'Identical name "a.txt"'
+    )
+    expect(describeNameMatch(["photo.jpg", "phato.jpg"], DEFAULTS, 1)).toBe(
+      "Names match within 1 edit"
+    )
+  })
+})
+
+describe("levenshteinDistance", () => {
+  it.each([
+    ["", "", 0],
+    ["abc", "", 3],
+    ["kitten", "sitting", 3],
+    ["report", "raport", 1]
+  ])("%s -> %s is %i", (a, b, distance) => {
+    expect(levenshteinDistance(a, b)).toBe(distance)
+    expect(levenshteinDistance(b, a)).toBe(distance)
+  })
+})
@@ -0,0 +1,114 @@
+import { extname } from "path"
+import { NameMatchingOptions } from "../types/config"
+
+export type NameRule =
+  | "unicode"
+  | "case"
+  | "copy-suffix"
+  | "extension"
+  | "separators"
+
+const RULE_DESCRIPTIONS: Record<NameRule, string> = {
+  unicode: "Unicode form",
+  case: "letter case",
+  "copy-suffix": "copy markers",
+  extension: "extensions",
+  separators: "spaces, dashes and underscores"
+}
+
+// Markers that browsers, file managers and people add to copies, matched at
+// the end of the name: "(1)", "[2]", "copy", "- Copy", "Copy 3", "final".
+// Bare numbers and versions are left alone: "Chapter 2", "page-2" and
+// "report v2" are different files, not copies.
+const COPY_SUFFIX =
+  /(?:\s*[([]\d+[)\]]|[\s_-]+(?:copy|kopie|copie|final|old|backup|bak)(?:[\s_-]*\d+)?)$/i
+const COPY_PREFIX = /^(?:copy of|copie de|kopie von)\s+/i
+
+// Reduces a file name to the key it's grouped under, and lists the rules
+// that changed it. `skip` leaves one rule out to see whether it mattered.
+export function normalizeName(
+  name: string,
+  options: NameMatchingOptions,
+  skip?: NameRule
+): { key: string; rules: NameRule[] } {
+  const rules: NameRule[] = []
+  const apply = (rule: NameRule, value: string, next: string): string => {
+    if (rule === skip || next === value) {
+      return value
+    }
+    rules.push(rule)
+    return next
+  }
+
+  // NFC and NFD spellings of "é" are different strings on disk
+  let value = apply("unicode", name, name.normalize("NFC"))
+  if (options.ignoreCase) {
+    value = apply("case", value, value.toLowerCase())
+  }
+
+  const extension = extname(value)
+  let stem = extension ? value.slice(0, -extension.length) : value
+
+  if (options.stripCopySuffixes) {
+    let stripped = stem.replace(COPY_PREFIX, "")
+    while (COPY_SUFFIX.test(stripped) && stripped.replace(COPY_SUFFIX, "")) {
+      stripped = stripped.replace(COPY_SUFFIX, "")
+    }
+    stem = apply("copy-suffix", stem, stripped)
+    stem = apply("separators", stem, stem.replace(/[\s_-]+/g, " ").trim())
+  }
+
+  const key = options.ignoreExtension
+    ? apply("extension", stem + extension, stem)
+    : stem + extension
+  return { key, rules }
+}
+
+// Explains why differently named files ended up in one group. Only rules
+// without which the names would fall apart into more keys are mentioned.
+export function describeNameMatch(
+  names: string[],
+  options: NameMatchingOptions,
+  editDistance: number
+): string {
+  if (new Set(names).size === 1) {
+    return `Identical name "${names[0]}"`
+  }
+
+  const keyCount = (skip?: NameRule) =>
+    new Set(names.map((name) => normalizeName(name, options, skip).key)).size
+  const applied = new Set(
+    names.flatMap((name) => normalizeName(name, options).rules)
+  )
+  const ignored = Array.from(applied)
+    .filter((rule) => keyCount(rule) > keyCount())
+    .map((rule) => RULE_DESCRIPTIONS[rule])
+  const parts: string[] = []
+  if (ignored.length > 0) {
+    parts.push(`ignoring ${ignored.join(", ")}`)
+  }
+  if (editDistance > 0) {
+    parts.push(`within ${editDistance} edit${editDistance === 1 ? "" : "s"}`)
+  }
+  return `Names match ${parts.join(", ")}`
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
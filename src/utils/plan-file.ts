@@ -0,0 +1,206 @@
+import { promises as fs } from "fs"
+import { dirname } from "path"
+import { ActionPlan } from "../types/duplicate"
+import { FileMetadata } from "../types/file"
+import {
+  FileFingerprint,
+  LoadedPlanFile,
+  PlanFile,
+  PLAN_FILE_VERSION,
+  SerializedActionPlan
+} from "../types/plan-file"
+import { FolderComparer } from "../detector/folder-comparer"
+import { ARCHIVE_MEMBER_SEPARATOR, readArchiveMembers } from "./archive-reader"
+import { calculateFileHash } from "./file-utils"
+import { deserializeGroup, serializeGroup } from "./scan-file"
+import { logger } from "./logger"
+
+export async function serializePlans(
+  plans: ActionPlan[],
+  baseDirectory: string,
+  quarantineDirectory?: string
+): Promise<PlanFile> {
+  const serializedPlans: SerializedActionPlan[] = []
+
+  for (const plan of plans) {
+    // Keepers are fingerprinted too, removing their copies relies on them
+    const fingerprints: Record<string, FileFingerprint> = {}
+    for (const file of plan.duplicateGroup.files) {
+      fingerprints[file.path] = await fingerprintFile(file)
+    }
+
+    serializedPlans.push({
+      duplicateGroup: serializeGroup(plan.duplicateGroup),
+      selectedActions: Object.fromEntries(plan.selectedActions),
+      targetPaths: Object.fromEntries(plan.targetPaths),
+      estimatedSavings: plan.estimatedSavings,
+      fingerprints
+    })
+  }
+
+  return {
+    version: PLAN_FILE_VERSION,
+    generatedAt: new Date().toISOString(),
+    baseDirectory,
+    ...(quarantineDirectory && { quarantineDirectory }),
+    plans: serializedPlans
+  }
+}
+
+export async function writePlanFile(
+  outputPath: string,
+  planFile: PlanFile
+): Promise<void> {
+  await fs.mkdir(dirname(outputPath), { recursive: true })
+  await fs.writeFile(outputPath, JSON.stringify(planFile, null, 2), "utf-8")
+  logger.info("Action plan written", {
+    outputPath,
+    planCount: planFile.plans.length
+  })
+}
+
+export async function readPlanFile(inputPath: string): Promise<LoadedPlanFile> {
+  const data = await fs.readFile(inputPath, "utf-8")
+  const parsed: PlanFile = JSON.parse(data)
+
+  if (typeof parsed.version !== "number" || !Array.isArray(parsed.plans)) {
+    throw new Error(`${inputPath} is not a duplicates-finder plan file`)
+  }
+  if (parsed.version > PLAN_FILE_VERSION) {
+    throw new Error(
+      `Unsupported plan file version ${parsed.version} (this version reads up to ${PLAN_FILE_VERSION})`
+    )
+  }
+
+  logger.info("Action plan loaded", {
+    inputPath,
+    version: parsed.version,
+    planCount: parsed.plans.length
+  })
+
+  return {
+    ...parsed,
+    generatedAt: new Date(parsed.generatedAt),
+    plans: parsed.plans.map((plan) => ({
+      duplicateGroup: deserializeGroup(plan.duplicateGroup),
+      selectedActions: new Map(Object.entries(plan.selectedActions)),
+      targetPaths: new Map(Object.entries(plan.targetPaths || {})),
+      estimatedSavings: plan.estimatedSavings,
+      fingerprints: new Map(Object.entries(plan.fingerprints))
+    }))
+  }
+}
+
+// Returns why a file no longer matches its fingerprint, or undefined if it
+// does
+export async function findStaleReason(
+  file: FileMetadata,
+  fingerprint: FileFingerprint
+): Promise<string | undefined> {
+  if (file.archive) {
+    return findStaleMemberReason(file, fingerprint)
+  }
+
+  const { path } = file
+  let stats
+  try {
+    stats = await fs.stat(path)
+  } catch {
+    return "No longer exists"
+  }
+
+  const size = stats.isDirectory()
+    ? await new FolderComparer().getFolderSize(path)
+    : stats.size
+  if (size !== fingerprint.size) {
+    return "Size changed"
+  }
+
+  // A folder's mtime misses changes inside it, so folders are always hashed
+  if (!stats.isDirectory() && stats.mtime.getTime() === fingerprint.mtimeMs) {
+    return undefined
+  }
+
+  const hash = await hashPath(path, stats.isDirectory())
+  return hash === fingerprint.hash ? undefined : "Contents changed"
+}
+
+// An archive member is checked through its archive: the archive's size and
+// mtime, plus the member's own hash
+async function findStaleMemberReason(
+  file: FileMetadata,
+  fingerprint: FileFingerprint
+): Promise<string | undefined> {
+  let stats
+  try {
+    stats = await fs.stat(file.archive!)
+  } catch {
+    return "Archive no longer exists"
+  }
+
+  if (stats.size !== fingerprint.size) {
+    return "Archive changed"
+  }
+  if (stats.mtime.getTime() === fingerprint.mtimeMs) {
+    return undefined
+  }
+
+  const hash = await hashArchiveMember(file)
+  if (hash === undefined) {
+    return "No longer in the archive"
+  }
+  return hash === fingerprint.hash ? undefined : "Contents changed"
+}
+
+async function fingerprintFile(file: FileMetadata): Promise<FileFingerprint> {
+  if (file.archive) {
+    const archiveStats = await fs.stat(file.archive)
+    return {
+      size: archiveStats.size,
+      mtimeMs: archiveStats.mtime.getTime(),
+      hash: file.hash || (await hashArchiveMember(file)) || ""
+    }
+  }
+
+  const stats = await fs.stat(file.path)
+
+  if (stats.isDirectory()) {
+    return {
+      size: await new FolderComparer().getFolderSize(file.path),
+      mtimeMs: stats.mtime.getTime(),
+      hash: await hashPath(file.path, true)
+    }
+  }
+
+  // The scan's hash is only reused while the file looks untouched
+  const unchanged =
+    stats.size === file.size &&
+    stats.mtime.getTime() === file.modified.getTime()
+
+  return {
+    size: stats.size,
+    mtimeMs: stats.mtime.getTime(),
+    hash: unchanged && file.hash ? file.hash : await hashPath(file.path, false)
+  }
+}
+
+// Rereads the member's archive; undefined when the member is gone
+async function hashArchiveMember(
+  file: FileMetadata
+): Promise<string | undefined> {
+  const memberPath = file.path.slice(
+    file.archive!.length + ARCHIVE_MEMBER_SEPARATOR.length
+  )
+  const members = await readArchiveMembers(file.archive!)
+  const member = members.find((candidate) => candidate.path === memberPath)
+  return member && (member.hash || "")
+}
+
+async function hashPath(path: string, isDirectory: boolean): Promise<string> {
+  if (!isDirectory) {
+    return calculateFileHash(path)
+  }
+
+  const structure = await new FolderComparer().buildFolderStructure(path, path)
+  return structure.structureHash
+}
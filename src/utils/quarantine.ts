@@ -0,0 +1,195 @@
+import { promises as fs } from "fs"
+import { dirname, isAbsolute, join, parse, relative, resolve } from "path"
+import { movePath, pathExists } from "./file-utils"
+import { logger } from "./logger"
+
+export const QUARANTINE_MANIFEST_FILE = ".duplicates-finder-quarantine.json"
+const MANIFEST_VERSION = 1
+
+export interface QuarantineEntry {
+  originalPath: string
+  quarantinedPath: string
+  size: number
+  quarantinedAt: Date
+}
+
+export interface QuarantineRestoreResult {
+  restored: QuarantineEntry[]
+  skipped: { entry: QuarantineEntry; reason: string }[]
+}
+
+export interface QuarantinePurgeResult {
+  removed: number
+  freedBytes: number
+}
+
+// A folder that removed duplicates are moved into, mirroring their path under
+// the scan root, with a manifest so the whole batch can be restored or purged
+export class Quarantine {
+  readonly directory: string
+  private scanRoot?: string
+  private manifestPath: string
+
+  constructor(directory: string, scanRoot?: string) {
+    this.directory = resolve(directory)
+    this.scanRoot = scanRoot ? resolve(scanRoot) : undefined
+    this.manifestPath = join(this.directory, QUARANTINE_MANIFEST_FILE)
+  }
+
+  targetPathFor(path: string): string {
+    const relativePath = this.scanRoot ? relative(this.scanRoot, path) : ""
+
+    if (relativePath && !relativePath.startsWith("..")) {
+      return join(this.directory, relativePath)
+    }
+
+    // Files outside the scan root keep their full path below "external"
+    const { root } = parse(path)
+    return join(this.directory, "external", path.slice(root.length))
+  }
+
+  contains(path: string): boolean {
+    const relativePath = relative(this.directory, path)
+    return (
+      !!relativePath &&
+      !relativePath.startsWith("..") &&
+      !isAbsolute(relativePath)
+    )
+  }
+
+  async list(): Promise<QuarantineEntry[]> {
+    try {
+      const manifestData = await fs.readFile(this.manifestPath, "utf-8")
+      const parsed = JSON.parse(manifestData)
+
+      if (parsed.version !== MANIFEST_VERSION) {
+        throw new Error(
+          `Unsupported quarantine manifest version: ${parsed.version}`
+        )
+      }
+      return parsed.entries.map((entry: QuarantineEntry) => ({
+        ...entry,
+        quarantinedAt: new Date(entry.quarantinedAt)
+      }))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+  }
+
+  async record(
+    originalPath: string,
+    quarantinedPath: string,
+    size: number
+  ): Promise<void> {
+    const entries = await this.list()
+    entries.push({
+      originalPath,
+      quarantinedPath,
+      size,
+      quarantinedAt: new Date()
+    })
+
+    await this.saveManifest(entries)
+    logger.info("File quarantined", { originalPath, quarantinedPath })
+  }
+
+  // Drops entries whose files were moved back by an undo or rollback
+  async forget(quarantinedPaths: string[]): Promise<void> {
+    const forgotten = new Set(quarantinedPaths)
+    const entries = await this.list()
+    await this.saveManifest(
+      entries.filter((entry) => !forgotten.has(entry.quarantinedPath))
+    )
+  }
+
+  async restore(): Promise<QuarantineRestoreResult> {
+    const result: QuarantineRestoreResult = { restored: [], skipped: [] }
+    const remaining: QuarantineEntry[] = []
+
+    for (const entry of await this.list()) {
+      let reason: string | undefined
+      if (!(await pathExists(entry.quarantinedPath))) {
+        reason = "No longer in quarantine"
+      } else if (await pathExists(entry.originalPath)) {
+        reason = "Original location is occupied"
+      }
+
+      if (reason) {
+        result.skipped.push({ entry, reason })
+        remaining.push(entry)
+        continue
+      }
+
+      try {
+        await movePath(entry.quarantinedPath, entry.originalPath)
+        await this.removeEmptyParents(entry.quarantinedPath)
+        result.restored.push(entry)
+      } catch (error) {
+        logger.error("Failed to restore quarantined file", { entry, error })
+        result.skipped.push({
+          entry,
+          reason: error instanceof Error ? error.message : "Unknown error"
+        })
+        remaining.push(entry)
+      }
+    }
+
+    await this.saveManifest(remaining)
+    logger.info("Quarantine restored", {
+      directory: this.directory,
+      restored: result.restored.length,
+      skipped: result.skipped.length
+    })
+    return result
+  }
+
+  async purge(): Promise<QuarantinePurgeResult> {
+    const result: QuarantinePurgeResult = { removed: 0, freedBytes: 0 }
+
+    for (const entry of await this.list()) {
+      if (!(await pathExists(entry.quarantinedPath))) {
+        continue
+      }
+
+      await fs.rm(entry.quarantinedPath, { recursive: true, force: true })
+      await this.removeEmptyParents(entry.quarantinedPath)
+      result.removed++
+      result.freedBytes += entry.size
+    }
+
+    await this.saveManifest([])
+    logger.info("Quarantine purged", { directory: this.directory, ...result })
+    return result
+  }
+
+  private async saveManifest(entries: QuarantineEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      await fs.rm(this.manifestPath, { force: true })
+      return
+    }
+
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(
+      this.manifestPath,
+      JSON.stringify({ version: MANIFEST_VERSION, entries }, null, 2),
+      "utf-8"
+    )
+  }
+
+  // Cleans up the mirrored folder structure, but never the quarantine itself
+  private async removeEmptyParents(path: string): Promise<void> {
+    let current = dirname(path)
+
+    while (this.contains(current)) {
+      try {
+        await fs.rmdir(current)
+      } catch {
+        return
+      }
+      current = dirname(current)
+    }
+  }
+}
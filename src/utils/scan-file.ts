@@ -0,0 +1,117 @@
+import { promises as fs } from "fs"
+import { dirname } from "path"
+import { DuplicateGroup } from "../types/duplicate"
+import { FileMetadata, ScanOptions, ScanResult } from "../types/file"
+import {
+  LoadedScanFile,
+  ScanFile,
+  SCAN_FILE_VERSION,
+  SerializedDuplicateGroup,
+  SerializedFileMetadata
+} from "../types/scan-file"
+import { DuplicateDetector } from "../detector/duplicate-detector"
+import { logger } from "./logger"
+
+export function serializeScan(
+  scanResult: ScanResult,
+  duplicateGroups: DuplicateGroup[],
+  options: ScanOptions
+): ScanFile {
+  return {
+    version: SCAN_FILE_VERSION,
+    generatedAt: new Date().toISOString(),
+    baseDirectory: options.directory,
+    options,
+    scan: {
+      totalFiles: scanResult.totalFiles,
+      totalDirectories: scanResult.directories.length,
+      totalSize: scanResult.totalSize,
+      scanTime: scanResult.scanTime
+    },
+    stats: DuplicateDetector.calculateStats(duplicateGroups),
+    duplicateGroups: duplicateGroups.map(serializeGroup)
+  }
+}
+
+export function serializeGroup(
+  group: DuplicateGroup
+): SerializedDuplicateGroup {
+  const { files, actions, targetPaths, ...rest } = group
+
+  return {
+    ...rest,
+    files: files.map(serializeFile),
+    actions: Object.fromEntries(actions),
+    ...(targetPaths && { targetPaths: Object.fromEntries(targetPaths) })
+  }
+}
+
+export function deserializeGroup(
+  group: SerializedDuplicateGroup
+): DuplicateGroup {
+  const { files, actions, targetPaths, ...rest } = group
+
+  return {
+    ...rest,
+    files: files.map(deserializeFile),
+    actions: new Map(Object.entries(actions || {})),
+    ...(targetPaths && { targetPaths: new Map(Object.entries(targetPaths)) })
+  }
+}
+
+function serializeFile(file: FileMetadata): SerializedFileMetadata {
+  // Text signatures are only needed during detection and would bloat the file
+  const { minHash, ...rest } = file
+
+  return {
+    ...rest,
+    modified: rest.modified.toISOString(),
+    created: rest.created.toISOString()
+  }
+}
+
+function deserializeFile(file: SerializedFileMetadata): FileMetadata {
+  return {
+    ...file,
+    modified: new Date(file.modified),
+    created: new Date(file.created)
+  }
+}
+
+export async function writeScanFile(
+  outputPath: string,
+  scanFile: ScanFile
+): Promise<void> {
+  await fs.mkdir(dirname(outputPath), { recursive: true })
+  await fs.writeFile(outputPath, JSON.stringify(scanFile, null, 2), "utf-8")
+  logger.info("Scan results written", {
+    outputPath,
+    groupCount: scanFile.duplicateGroups.length
+  })
+}
+
+export async function readScanFile(inputPath: string): Promise<LoadedScanFile> {
+  const data = await fs.readFile(inputPath, "utf-8")
+  const parsed: ScanFile = JSON.parse(data)
+
+  if (typeof parsed.version !== "number") {
+    throw new Error(`${inputPath} is not a duplicates-finder scan file`)
+  }
+  if (parsed.version > SCAN_FILE_VERSION) {
+    throw new Error(
+      `Unsupported scan file version ${parsed.version} (this version reads up to ${SCAN_FILE_VERSION})`
+    )
+  }
+
+  logger.info("Scan results loaded", {
+    inputPath,
+    version: parsed.version,
+    groupCount: parsed.duplicateGroups.length
+  })
+
+  return {
+    ...parsed,
+    generatedAt: new Date(parsed.generatedAt),
+    duplicateGroups: parsed.duplicateGroups.map(deserializeGroup)
+  }
+}
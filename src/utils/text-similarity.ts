@@ -0,0 +1,104 @@
+import { promises as fs } from "fs"
+import { FileMetadata } from "../types/file"
+
+export const DEFAULT_TEXT_SIMILARITY_THRESHOLD = 0.7
+export const MINHASH_SIZE = 128
+
+// Signatures are compared in bands: two files become candidates when every
+// value of one band matches. 32 bands of 4 catch most pairs above ~45%.
+export const MINHASH_BANDS = 32
+
+// Whole files are read and split into words, so text files are capped far
+// below maxFileSize; larger ones are only compared by content hash
+export const MAX_TEXT_FILE_SIZE = 2 * 1024 * 1024
+
+const SHINGLE_SIZE = 3
+// A NUL byte in the first few KB means the file is binary whatever its name
+const BINARY_SNIFF_BYTES = 8192
+
+// Fixed seeds keep signatures comparable between runs and saved scans
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, index) =>
+  mix32(index + 0x9e3779b9)
+)
+
+export function isTextCandidate(
+  file: FileMetadata,
+  extensions: string[]
+): boolean {
+  return !!file.extension && extensions.includes(file.extension)
+}
+
+// Returns a MinHash signature of the file's word shingles, or undefined for
+// binary files and files too short to shingle
+export async function calculateMinHash(
+  filePath: string
+): Promise<number[] | undefined> {
+  const data = await fs.readFile(filePath)
+  if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+    return undefined
+  }
+
+  const words = data.toString("utf-8").split(/\s+/).filter(Boolean)
+  if (words.length < SHINGLE_SIZE) {
+    return undefined
+  }
+
+  const shingles = new Set<number>()
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(" ")))
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff)
+  for (const shingle of shingles) {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i])
+      if (value < signature[i]) {
+        signature[i] = value
+      }
+    }
+  }
+  return signature
+}
+
+// The share of matching signature values estimates the Jaccard similarity
+// of the two files' shingle sets
+export function estimateSimilarity(a: number[], b: number[]): number {
+  let matches = 0
+  for (let i = 0; i < MINHASH_SIZE; i++) {
+    if (a[i] === b[i]) {
+      matches++
+    }
+  }
+  return matches / MINHASH_SIZE
+}
+
+export function minHashBands(signature: number[]): string[] {
+  const rows = MINHASH_SIZE / MINHASH_BANDS
+  const bands: string[] = []
+  for (let band = 0; band < MINHASH_BANDS; band++) {
+    const values = signature.slice(band * rows, (band + 1) * rows)
+    bands.push(`${band}:${values.join(",")}`)
+  }
+  return bands
+}
+
+// FNV-1a
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// MurmurHash3 finalizer, spreads every input bit over the whole output
+function mix32(value: number): number {
+  let hash = value >>> 0
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return hash >>> 0
+}
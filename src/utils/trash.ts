@@ -0,0 +1,164 @@
+import { promises as fs } from "fs"
+import { basename, dirname, extname, join } from "path"
+import { homedir } from "os"
+import { movePath, pathExists } from "./file-utils"
+import { logger } from "./logger"
+
+export interface TrashedItem {
+  trashedPath: string // location inside the trash's files/ directory
+  infoPath: string // matching .trashinfo file
+}
+
+// Moves a file or directory into the trash as described by the freedesktop.org
+// Trash specification, so desktop file managers can list and restore it
+export async function moveToTrash(
+  path: string,
+  deletionDate: Date = new Date()
+): Promise<TrashedItem> {
+  const trashDirectory = await findTrashDirectory(path)
+  const filesDirectory = join(trashDirectory, "files")
+  const infoDirectory = join(trashDirectory, "info")
+  await fs.mkdir(filesDirectory, { recursive: true, mode: 0o700 })
+  await fs.mkdir(infoDirectory, { recursive: true, mode: 0o700 })
+
+  const infoPath = await reserveInfoFile(
+    infoDirectory,
+    filesDirectory,
+    path,
+    deletionDate
+  )
+  const trashedPath = join(filesDirectory, basename(infoPath, ".trashinfo"))
+
+  try {
+    await movePath(path, trashedPath)
+  } catch (error) {
+    await fs.rm(infoPath, { force: true })
+    throw error
+  }
+
+  logger.info("Moved to trash", { path, trashedPath })
+  return { trashedPath, infoPath }
+}
+
+export async function restoreFromTrash(
+  item: TrashedItem,
+  originalPath: string
+): Promise<void> {
+  await movePath(item.trashedPath, originalPath)
+  await fs.rm(item.infoPath, { force: true })
+  logger.info("Restored from trash", { originalPath })
+}
+
+// Puts a restored item back under the name it was trashed with
+export async function returnToTrash(
+  item: TrashedItem,
+  originalPath: string,
+  deletionDate: Date
+): Promise<void> {
+  await fs.writeFile(
+    item.infoPath,
+    formatTrashInfo(originalPath, deletionDate),
+    "utf-8"
+  )
+  await movePath(originalPath, item.trashedPath)
+}
+
+// The home trash when it lives on the same device as the file, otherwise the
+// trash directory at the top of the file's mount point
+async function findTrashDirectory(path: string): Promise<string> {
+  const dataHome = process.env.XDG_DATA_HOME || join(homedir(), ".local/share")
+  const homeTrash = join(dataHome, "Trash")
+  await fs.mkdir(homeTrash, { recursive: true, mode: 0o700 })
+
+  const [fileStats, homeTrashStats] = await Promise.all([
+    fs.lstat(path),
+    fs.stat(homeTrash)
+  ])
+  if (fileStats.dev === homeTrashStats.dev) {
+    return homeTrash
+  }
+
+  const topDirectory = await findMountPoint(path, fileStats.dev)
+  const uid = process.getuid ? process.getuid() : 0
+
+  // $topdir/.Trash is only trusted when it's a real, sticky directory
+  const sharedTrash = join(topDirectory, ".Trash")
+  try {
+    const stats = await fs.lstat(sharedTrash)
+    if (stats.isDirectory() && stats.mode & 0o1000) {
+      const userTrash = join(sharedTrash, String(uid))
+      await fs.mkdir(userTrash, { recursive: true, mode: 0o700 })
+      return userTrash
+    }
+    logger.warn("Ignoring unsafe shared trash directory", { sharedTrash })
+  } catch {
+    // No shared trash on this mount
+  }
+
+  const userTrash = join(topDirectory, `.Trash-${uid}`)
+  await fs.mkdir(userTrash, { recursive: true, mode: 0o700 })
+  const stats = await fs.lstat(userTrash)
+  if (!stats.isDirectory() || stats.uid !== uid) {
+    throw new Error(`No usable trash directory for ${path}`)
+  }
+  return userTrash
+}
+
+async function findMountPoint(path: string, device: number): Promise<string> {
+  let current = dirname(path)
+
+  while (true) {
+    const parent = dirname(current)
+    if (parent === current || (await fs.stat(parent)).dev !== device) {
+      return current
+    }
+    current = parent
+  }
+}
+
+// Creating the .trashinfo file exclusively reserves the name in files/ too
+async function reserveInfoFile(
+  infoDirectory: string,
+  filesDirectory: string,
+  path: string,
+  deletionDate: Date
+): Promise<string> {
+  const extension = extname(path)
+  const stem = basename(path, extension)
+  const contents = formatTrashInfo(path, deletionDate)
+
+  for (let attempt = 1; ; attempt++) {
+    const name =
+      attempt === 1 ? basename(path) : `${stem}.${attempt}${extension}`
+    const infoPath = join(infoDirectory, `${name}.trashinfo`)
+
+    try {
+      await fs.writeFile(infoPath, contents, { encoding: "utf-8", flag: "wx" })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error
+      }
+      continue
+    }
+
+    // Skip names left behind in files/ without their .trashinfo
+    if (!(await pathExists(join(filesDirectory, name)))) {
+      return infoPath
+    }
+    await fs.rm(infoPath, { force: true })
+  }
+}
+
+function formatTrashInfo(path: string, deletionDate: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  const date =
+    `${deletionDate.getFullYear()}-${pad(deletionDate.getMonth() + 1)}-${pad(deletionDate.getDate())}` +
+    `T${pad(deletionDate.getHours())}:${pad(deletionDate.getMinutes())}:${pad(deletionDate.getSeconds())}`
+
+  return [
+    "[Trash Info]",
+    `Path=${encodeURI(path).replace(/[?#]/g, encodeURIComponent)}`,
+    `DeletionDate=${date}`,
+    ""
+  ].join("\n")
+}
@@ -0,0 +1,83 @@
+import { promises as fs } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { DuplicateAction } from "../types/duplicate"
+import { UndoSystem } from "./undo-system"
+
+describe("UndoSystem", () => {
+  const environment = { ...process.env }
+  let root: string
+  let undo: UndoSystem
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), "undo-system-"))
+    process.env.HOME = join(root, "home")
+    undo = new UndoSystem()
+    await undo.initialize()
+    // Every operation gets the same timestamp
+    vi.useFakeTimers({ toFake: ["Date"] })
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    process.env = { ...environment }
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  // Renames a -> b -> c, which only undoes cleanly newest first
+  const renameChain = async (sessionId?: string) => {
+    const [a, b, c] = ["a.txt", "b.txt", "c.txt"].map((name) =>
+      join(root, name)
+    )
+    await fs.writeFile(a, "content")
+
+    await fs.rename(a, b)
+    await undo.recordOperation({
+      action: DuplicateAction.RENAME,
+      originalPath: a,
+      newPath: b,
+      sessionId
+    })
+    await fs.rename(b, c)
+    await undo.recordOperation({
+      action: DuplicateAction.RENAME,
+      originalPath: b,
+      newPath: c,
+      sessionId
+    })
+    return [a, b, c]
+  }
+
+  it("undoes a session in reverse recording order", async () => {
+    const sessionId = undo.createSessionId()
+    const [a] = await renameChain(sessionId)
+
+    const result = await undo.undoSession(sessionId)
+    expect(result).toMatchObject({ failed: [] })
+    expect(result.undone).toHaveLength(2)
+    expect(await fs.readFile(a, "utf-8")).toBe("content")
+  })
+
+  it("undoes the last operations newest first", async () => {
+    const [a, b] = await renameChain()
+    const [latest] = await undo.getRecentOperations(1)
+    expect(latest.newPath).toBe(join(root, "c.txt"))
+
+    expect((await undo.undoLast()).failed).toEqual([])
+    expect(await fs.readFile(b, "utf-8")).toBe("content")
+    expect((await undo.undoLast()).failed).toEqual([])
+    expect(await fs.readFile(a, "utf-8")).toBe("content")
+  })
+
+  it("refuses to undo over a path that has been taken again", async () => {
+    const [a] = await renameChain()
+    await fs.writeFile(join(root, "b.txt"), "new file")
+
+    const result = await undo.undoLast()
+    expect(result.undone).toEqual([])
+    expect(await fs.readFile(join(root, "b.txt"), "utf-8")).toBe("new file")
+    expect(await fs.readFile(join(root, "c.txt"), "utf-8")).toBe("content")
+    expect(await fs.stat(a).catch(() => undefined)).toBeUndefined()
+  })
+})
@@ -1,7 +1,11 @@
 import { promises as fs } from "fs"
-import { join, dirname, basename } from "path"
+import { join, dirname } from "path"
 import { homedir } from "os"
-import { DuplicateAction } from "../types/duplicate"
+import { DuplicateAction, LINK_ACTIONS } from "../types/duplicate"
+import { BackupStore } from "./backup-store"
+import { LinkKind, movePath, pathExists, replaceWithLink } from "./file-utils"
+import { Quarantine } from "./quarantine"
+import { restoreFromTrash, returnToTrash } from "./trash"
 import { logger } from "./logger"
 
 export interface UndoOperation {
@@ -10,18 +14,48 @@ export interface UndoOperation {
   action: DuplicateAction
   originalPath: string
   backupPath?: string
+  backupHash?: string // content hash the backup is stored and verified under
   newPath?: string
+  trashInfoPath?: string // .trashinfo written for a TRASH operation
+  linkTarget?: string // kept file a HARDLINK/SYMLINK/REFLINK points at
+  quarantineDirectory?: string // quarantine whose manifest lists a MOVE
+  sessionId?: string // groups every operation from one apply run
+}
+
+export interface UndoSession {
+  sessionId: string
+  startedAt: Date
+  operationCount: number
+}
+
+export interface UndoBatchResult {
+  undone: string[]
+  failed: string[]
+  error?: string
+}
+
+export interface RetentionPolicy {
+  maxAgeDays?: number // 0 or undefined keeps backups regardless of age
+  maxTotalSize?: number // 0 or undefined keeps backups regardless of size
+}
+
+export interface GarbageCollectionResult {
+  expiredOperations: number
+  removedBackups: number
+  freedBytes: number
 }
 
 export class UndoSystem {
   private undoHistoryPath: string
   private backupDirectory: string
+  private backupStore: BackupStore
   private operations: UndoOperation[] = []
 
   constructor() {
     const baseDir = join(homedir(), ".duplicates-finder")
     this.undoHistoryPath = join(baseDir, "undo-history.json")
     this.backupDirectory = join(baseDir, "backups")
+    this.backupStore = new BackupStore(this.backupDirectory)
   }
 
   async initialize(): Promise<void> {
@@ -45,9 +79,18 @@ export class UndoSystem {
       timestamp: new Date()
     }
 
-    // For delete operations, create a backup
-    if (operation.action === DuplicateAction.DELETE) {
-      undoOp.backupPath = await this.createBackup(operation.originalPath)
+    // For delete and link operations, create a backup (backupHash is a hint
+    // from the scan and only reused once the file is proven to still match it)
+    if (
+      operation.action === DuplicateAction.DELETE ||
+      LINK_ACTIONS.includes(operation.action)
+    ) {
+      const backup = await this.backupStore.store(
+        operation.originalPath,
+        operation.backupHash
+      )
+      undoOp.backupPath = backup.backupPath
+      undoOp.backupHash = backup.hash
     }
 
     this.operations.push(undoOp)
@@ -72,44 +115,15 @@ export class UndoSystem {
     const operation = this.operations[operationIndex]
 
     try {
-      switch (operation.action) {
-        case DuplicateAction.DELETE:
-          if (operation.backupPath) {
-            await fs.copyFile(operation.backupPath, operation.originalPath)
-            logger.info("File restored from backup", {
-              originalPath: operation.originalPath,
-              backupPath: operation.backupPath
-            })
-          }
-          break
-
-        case DuplicateAction.MOVE:
-          if (operation.newPath) {
-            await fs.rename(operation.newPath, operation.originalPath)
-            logger.info("File moved back to original location", {
-              from: operation.newPath,
-              to: operation.originalPath
-            })
-          }
-          break
-
-        case DuplicateAction.RENAME:
-          if (operation.newPath) {
-            await fs.rename(operation.newPath, operation.originalPath)
-            logger.info("File renamed back to original name", {
-              from: operation.newPath,
-              to: operation.originalPath
-            })
-          }
-          break
-
-        default:
-          logger.warn("Cannot undo operation type", {
-            action: operation.action
-          })
-          return false
+      const problem = await this.checkUndoable(operation)
+      if (problem) {
+        logger.warn("Cannot undo operation", { operationId, problem })
+        return false
       }
 
+      await this.revert(operation)
+      await this.forgetQuarantined([operation])
+
       // Remove the operation from history
       this.operations.splice(operationIndex, 1)
       await this.saveHistory()
@@ -121,42 +135,408 @@ export class UndoSystem {
     }
   }
 
+  async discardOperation(operationId: string): Promise<void> {
+    const operation = this.operations.find((op) => op.id === operationId)
+    if (!operation) {
+      return
+    }
+
+    this.operations = this.operations.filter((op) => op.id !== operationId)
+    if (
+      operation.backupPath &&
+      !this.isBackupReferenced(operation.backupPath)
+    ) {
+      await this.backupStore.remove(operation.backupPath)
+    }
+
+    await this.saveHistory()
+    logger.info("Undo operation discarded", { operationId })
+  }
+
   async getRecentOperations(limit: number = 10): Promise<UndoOperation[]> {
-    return this.operations
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .slice(0, limit)
+    return newestFirst(this.operations).slice(0, limit)
   }
 
-  async clearHistory(): Promise<void> {
-    // Clean up backup files
+  async getSessions(): Promise<UndoSession[]> {
+    const sessions = new Map<string, UndoSession>()
+
     for (const operation of this.operations) {
-      if (operation.backupPath) {
-        try {
-          await fs.unlink(operation.backupPath)
-        } catch (error) {
-          logger.warn("Failed to delete backup file", {
-            backupPath: operation.backupPath,
+      if (!operation.sessionId) continue
+
+      const session = sessions.get(operation.sessionId)
+      if (!session) {
+        sessions.set(operation.sessionId, {
+          sessionId: operation.sessionId,
+          startedAt: operation.timestamp,
+          operationCount: 1
+        })
+      } else {
+        session.operationCount++
+        if (operation.timestamp < session.startedAt) {
+          session.startedAt = operation.timestamp
+        }
+      }
+    }
+
+    return Array.from(sessions.values()).sort(
+      (a, b) => b.startedAt.getTime() - a.startedAt.getTime()
+    )
+  }
+
+  async undoLast(count: number = 1): Promise<UndoBatchResult> {
+    const operations = await this.getRecentOperations(count)
+    return this.undoOperations(operations.map((op) => op.id))
+  }
+
+  // Rolls back a whole session or nothing: every operation is checked up
+  // front, and if one still fails the ones already reverted are re-applied
+  async undoSession(sessionId: string): Promise<UndoBatchResult> {
+    const operations = newestFirst(
+      this.operations.filter((op) => op.sessionId === sessionId)
+    )
+    const operationIds = operations.map((op) => op.id)
+
+    // Later operations can move files back into paths earlier ones need
+    const reverted = new Map<string, boolean>()
+    for (const operation of operations) {
+      const problem = await this.checkUndoable(operation, reverted)
+      if (problem) {
+        logger.warn("Session rollback refused", {
+          sessionId,
+          operationId: operation.id,
+          problem
+        })
+        return { undone: [], failed: operationIds, error: problem }
+      }
+      if (operation.newPath && !LINK_ACTIONS.includes(operation.action)) {
+        reverted.set(operation.newPath, false)
+      }
+      reverted.set(operation.originalPath, true)
+    }
+
+    const done: UndoOperation[] = []
+    for (const operation of operations) {
+      try {
+        await this.revert(operation)
+        done.push(operation)
+      } catch (error) {
+        logger.error(
+          "Session rollback failed, re-applying reverted operations",
+          {
+            sessionId,
+            operationId: operation.id,
             error
-          })
+          }
+        )
+
+        for (const operation of done.reverse()) {
+          try {
+            await this.reapply(operation)
+          } catch (reapplyError) {
+            logger.error("Failed to re-apply operation", {
+              operationId: operation.id,
+              error: reapplyError
+            })
+          }
+        }
+
+        return {
+          undone: [],
+          failed: operationIds,
+          error: error instanceof Error ? error.message : "Unknown error"
         }
       }
     }
 
+    await this.forgetQuarantined(operations)
+
+    const undone = new Set(operationIds)
+    this.operations = this.operations.filter((op) => !undone.has(op.id))
+    await this.saveHistory()
+
+    logger.info("Session rolled back", {
+      sessionId,
+      operationCount: operationIds.length
+    })
+    return { undone: operationIds, failed: [] }
+  }
+
+  // Undoes operations one by one, newest first
+  private async undoOperations(
+    operationIds: string[]
+  ): Promise<UndoBatchResult> {
+    const result: UndoBatchResult = { undone: [], failed: [] }
+
+    for (const operationId of operationIds) {
+      if (await this.undoOperation(operationId)) {
+        result.undone.push(operationId)
+      } else {
+        result.failed.push(operationId)
+      }
+    }
+
+    return result
+  }
+
+  // `reverted` says which paths the reverts before this one create or free
+  private async checkUndoable(
+    operation: UndoOperation,
+    reverted = new Map<string, boolean>()
+  ): Promise<string | undefined> {
+    const exists = async (path: string) =>
+      reverted.get(path) ?? (await pathExists(path))
+
+    switch (operation.action) {
+      case DuplicateAction.DELETE:
+      case DuplicateAction.HARDLINK:
+      case DuplicateAction.SYMLINK:
+      case DuplicateAction.REFLINK:
+        if (
+          !operation.backupPath ||
+          !(await pathExists(operation.backupPath))
+        ) {
+          return `Backup missing for ${operation.originalPath}`
+        }
+        if (
+          operation.backupHash &&
+          !(await this.backupStore.verify(
+            operation.backupPath,
+            operation.backupHash
+          ))
+        ) {
+          return `Backup for ${operation.originalPath} failed checksum verification`
+        }
+        break
+
+      case DuplicateAction.MOVE:
+      case DuplicateAction.RENAME:
+      case DuplicateAction.TRASH:
+        if (!operation.newPath || !(await exists(operation.newPath))) {
+          return `${operation.newPath} no longer exists`
+        }
+        break
+
+      default:
+        return `Cannot undo ${operation.action} operations`
+    }
+
+    // A linked path is expected to still exist and gets replaced on undo
+    if (
+      !LINK_ACTIONS.includes(operation.action) &&
+      (await exists(operation.originalPath))
+    ) {
+      return `${operation.originalPath} already exists`
+    }
+    return undefined
+  }
+
+  private async revert(operation: UndoOperation): Promise<void> {
+    switch (operation.action) {
+      case DuplicateAction.DELETE:
+        await fs.cp(operation.backupPath!, operation.originalPath, {
+          recursive: true
+        })
+        logger.info("File restored from backup", {
+          originalPath: operation.originalPath,
+          backupPath: operation.backupPath
+        })
+        break
+
+      case DuplicateAction.MOVE:
+      case DuplicateAction.RENAME:
+        await movePath(operation.newPath!, operation.originalPath)
+        logger.info("File moved back to original location", {
+          from: operation.newPath,
+          to: operation.originalPath
+        })
+        break
+
+      case DuplicateAction.TRASH:
+        await restoreFromTrash(
+          {
+            trashedPath: operation.newPath!,
+            infoPath: operation.trashInfoPath!
+          },
+          operation.originalPath
+        )
+        break
+
+      case DuplicateAction.HARDLINK:
+      case DuplicateAction.SYMLINK:
+      case DuplicateAction.REFLINK:
+        await this.restoreOverLink(operation)
+        logger.info("Linked file restored from backup", {
+          originalPath: operation.originalPath,
+          backupPath: operation.backupPath
+        })
+        break
+    }
+  }
+
+  // Files moved back out of a quarantine leave its manifest, so a later
+  // restore or purge doesn't act on them
+  private async forgetQuarantined(operations: UndoOperation[]): Promise<void> {
+    const byDirectory = new Map<string, string[]>()
+    for (const operation of operations) {
+      if (!operation.quarantineDirectory || !operation.newPath) continue
+      const paths = byDirectory.get(operation.quarantineDirectory) || []
+      paths.push(operation.newPath)
+      byDirectory.set(operation.quarantineDirectory, paths)
+    }
+
+    for (const [directory, paths] of byDirectory) {
+      try {
+        await new Quarantine(directory).forget(paths)
+      } catch (error) {
+        logger.warn("Failed to update quarantine manifest", {
+          directory,
+          error
+        })
+      }
+    }
+  }
+
+  // Copies the backup next to the link first, so the path never goes missing
+  private async restoreOverLink(operation: UndoOperation): Promise<void> {
+    const tempPath = `${operation.originalPath}.${Date.now()}.restore`
+
+    try {
+      await fs.copyFile(operation.backupPath!, tempPath)
+      await fs.rename(tempPath, operation.originalPath)
+    } finally {
+      await fs.rm(tempPath, { force: true })
+    }
+  }
+
+  // Inverse of revert(), used to keep a failed session rollback all-or-nothing
+  private async reapply(operation: UndoOperation): Promise<void> {
+    switch (operation.action) {
+      case DuplicateAction.DELETE:
+        await fs.rm(operation.originalPath, { recursive: true, force: true })
+        break
+
+      case DuplicateAction.MOVE:
+      case DuplicateAction.RENAME:
+        await movePath(operation.originalPath, operation.newPath!)
+        break
+
+      case DuplicateAction.TRASH:
+        await returnToTrash(
+          {
+            trashedPath: operation.newPath!,
+            infoPath: operation.trashInfoPath!
+          },
+          operation.originalPath,
+          operation.timestamp
+        )
+        break
+
+      case DuplicateAction.HARDLINK:
+      case DuplicateAction.SYMLINK:
+      case DuplicateAction.REFLINK:
+        await replaceWithLink(
+          operation.originalPath,
+          operation.linkTarget!,
+          operation.action as LinkKind
+        )
+        break
+    }
+  }
+
+  createSessionId(): string {
+    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  async clearHistory(): Promise<void> {
+    // Clean up backup files
+    for (const backup of await this.backupStore.list()) {
+      try {
+        await this.backupStore.remove(backup.path)
+      } catch (error) {
+        logger.warn("Failed to delete backup file", {
+          backupPath: backup.path,
+          error
+        })
+      }
+    }
+
     this.operations = []
     await this.saveHistory()
     logger.info("Undo history cleared")
   }
 
-  private async createBackup(filePath: string): Promise<string> {
-    const fileName = basename(filePath)
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
-    const backupFileName = `${timestamp}_${fileName}`
-    const backupPath = join(this.backupDirectory, backupFileName)
+  // Expires operations whose backups fall outside the retention policy, then
+  // deletes every backup no remaining operation refers to
+  async collectGarbage(
+    policy: RetentionPolicy = {}
+  ): Promise<GarbageCollectionResult> {
+    const expired = new Set<string>()
+    const withBackups = this.operations
+      .filter((op) => op.backupPath)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    if (policy.maxAgeDays) {
+      const cutoff = Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000
+      withBackups
+        .filter((op) => op.timestamp.getTime() < cutoff)
+        .forEach((op) => expired.add(op.id))
+    }
+
+    const backups = await this.backupStore.list()
+
+    if (policy.maxTotalSize) {
+      const sizes = new Map(backups.map((b) => [b.path, b.size]))
+      const referencedSize = () => {
+        const referenced = new Set(
+          withBackups
+            .filter((op) => !expired.has(op.id))
+            .map((op) => op.backupPath!)
+        )
+        return Array.from(referenced).reduce(
+          (sum, path) => sum + (sizes.get(path) || 0),
+          0
+        )
+      }
+
+      // Oldest operations go first
+      for (const operation of withBackups) {
+        if (referencedSize() <= policy.maxTotalSize) break
+        expired.add(operation.id)
+      }
+    }
 
-    await fs.copyFile(filePath, backupPath)
-    logger.info("Backup created", { originalPath: filePath, backupPath })
+    this.operations = this.operations.filter((op) => !expired.has(op.id))
+
+    let removedBackups = 0
+    let freedBytes = 0
+    for (const backup of backups) {
+      if (this.isBackupReferenced(backup.path)) continue
+
+      try {
+        await this.backupStore.remove(backup.path)
+        removedBackups++
+        freedBytes += backup.size
+      } catch (error) {
+        logger.warn("Failed to delete backup file", {
+          backupPath: backup.path,
+          error
+        })
+      }
+    }
 
-    return backupPath
+    await this.saveHistory()
+
+    const result = {
+      expiredOperations: expired.size,
+      removedBackups,
+      freedBytes
+    }
+    logger.info("Backup garbage collection completed", result)
+    return result
+  }
+
+  private isBackupReferenced(backupPath: string): boolean {
+    return this.operations.some((op) => op.backupPath === backupPath)
   }
 
   private async loadHistory(): Promise<void> {
@@ -198,4 +578,10 @@ export class UndoSystem {
   }
 }
 
+// History is kept in the order operations were recorded, which timestamps
+// can't tell apart within the same millisecond
+function newestFirst(operations: UndoOperation[]): UndoOperation[] {
+  return [...operations].reverse()
+}
+
 export const undoSystem = new UndoSystem()
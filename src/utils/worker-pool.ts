@@ -0,0 +1,186 @@
+import { Worker } from "worker_threads"
+import { HashKind } from "./hash-cache"
+import { PARTIAL_HASH_SAMPLE_SIZE } from "./file-utils"
+import { logger } from "./logger"
+
+// Runs `worker` over every item with at most `concurrency` calls in flight
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let nextIndex = 0
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      await worker(items[index], index)
+    }
+  }
+
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    runNext
+  )
+  await Promise.all(runners)
+}
+
+// Plain JavaScript so it runs the same from ts-node and the compiled build
+const HASH_WORKER_SOURCE = `
+const { parentPort } = require("worker_threads")
+const { createHash } = require("crypto")
+const fs = require("fs")
+
+async function partialHash(filePath, size, sampleSize) {
+  const hash = createHash("sha256")
+  const handle = await fs.promises.open(filePath, "r")
+  try {
+    const headLength = Math.min(sampleSize, size)
+    const head = Buffer.alloc(headLength)
+    await handle.read(head, 0, headLength, 0)
+    hash.update(head)
+    if (size > sampleSize) {
+      const tailLength = Math.min(sampleSize, size - sampleSize)
+      const tail = Buffer.alloc(tailLength)
+      await handle.read(tail, 0, tailLength, size - tailLength)
+      hash.update(tail)
+    }
+  } finally {
+    await handle.close()
+  }
+  return hash.digest("hex")
+}
+
+function fullHash(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256")
+    const stream = fs.createReadStream(filePath)
+    stream.on("data", (data) => hash.update(data))
+    stream.on("end", () => resolve(hash.digest("hex")))
+    stream.on("error", reject)
+  })
+}
+
+parentPort.on("message", async ({ id, filePath, kind, size, sampleSize }) => {
+  try {
+    const hash =
+      kind === "full"
+        ? await fullHash(filePath)
+        : await partialHash(filePath, size, sampleSize)
+    parentPort.postMessage({ id, hash })
+  } catch (error) {
+    parentPort.postMessage({ id, error: error.message })
+  }
+})
+`
+
+interface PendingHash {
+  resolve: (hash: string) => void
+  reject: (error: Error) => void
+  worker: Worker
+}
+
+// Crashes beyond this mean something is wrong with every worker, not a file
+const MAX_WORKER_RESTARTS = 3
+
+export class HashWorkerPool {
+  private workers: Worker[] = []
+  private pending = new Map<number, PendingHash>()
+  private nextId = 0
+  private nextWorker = 0
+  private restarts = 0
+  private failure?: Error
+  private destroyed = false
+
+  constructor(size: number) {
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.workers.push(this.startWorker())
+    }
+  }
+
+  private startWorker(): Worker {
+    const worker = new Worker(HASH_WORKER_SOURCE, { eval: true })
+
+    worker.on("message", ({ id, hash, error }) => {
+      const pending = this.pending.get(id)
+      if (!pending) return
+
+      this.pending.delete(id)
+      if (error) {
+        pending.reject(new Error(error))
+      } else {
+        pending.resolve(hash)
+      }
+    })
+    worker.on("error", (error) => {
+      this.handleCrash(worker, error)
+    })
+    // Workers only stop when terminated, any other exit is a crash
+    worker.on("exit", (code) => {
+      this.handleCrash(
+        worker,
+        new Error(`Hash worker exited with code ${code}`)
+      )
+    })
+
+    return worker
+  }
+
+  // Fails the crashed worker's hashes and starts a new worker in its place,
+  // or fails the whole pool once workers keep crashing
+  private handleCrash(worker: Worker, error: Error): void {
+    const slot = this.workers.indexOf(worker)
+    // "exit" follows "error", and terminating workers exits them too
+    if (this.destroyed || slot === -1) return
+
+    logger.error("Hash worker crashed", { error })
+    for (const [id, pending] of this.pending) {
+      if (pending.worker === worker) {
+        this.pending.delete(id)
+        pending.reject(error)
+      }
+    }
+
+    if (this.restarts < MAX_WORKER_RESTARTS) {
+      this.restarts++
+      this.workers[slot] = this.startWorker()
+      return
+    }
+
+    this.failure = error
+    for (const pending of this.pending.values()) {
+      pending.reject(error)
+    }
+    this.pending.clear()
+    const workers = this.workers
+    this.workers = []
+    workers.forEach((other) => void other.terminate())
+  }
+
+  hash(filePath: string, kind: HashKind, size: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure)
+        return
+      }
+
+      const id = this.nextId++
+      const worker = this.workers[this.nextWorker++ % this.workers.length]
+
+      this.pending.set(id, { resolve, reject, worker })
+      worker.postMessage({
+        id,
+        filePath,
+        kind,
+        size,
+        sampleSize: PARTIAL_HASH_SAMPLE_SIZE
+      })
+    })
+  }
+
+  async destroy(): Promise<void> {
+    this.destroyed = true
+    await Promise.all(this.workers.map((worker) => worker.terminate()))
+    this.workers = []
+  }
+}